@@ -0,0 +1,74 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { getAddonPaths } from "./addons";
+
+describe("getAddonPaths", () => {
+    let root: string;
+    let executablePath: string;
+    let userAddon: string;
+
+    async function createAddon(directory: string) {
+        await fs.mkdir(directory, { recursive: true });
+        await fs.writeFile(path.join(directory, "manifest.json"), "{}");
+        return directory;
+    }
+
+    beforeAll(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-addons-"));
+        executablePath = path.join(root, "install", "camoufox-bin");
+        await createAddon(path.join(root, "install", "addons", "UBO"));
+        userAddon = await createAddon(path.join(root, "my-addon"));
+    });
+
+    afterAll(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it("puts user add-ons before the installed default add-ons", async () => {
+        expect(await getAddonPaths([userAddon], [], executablePath)).toEqual([
+            userAddon,
+            path.join(root, "install", "addons", "UBO"),
+        ]);
+    });
+
+    it("leaves out excluded default add-ons", async () => {
+        expect(await getAddonPaths([userAddon], ["UBO"], executablePath)).toEqual([userAddon]);
+    });
+
+    it("skips default add-ons that aren't installed", async () => {
+        expect(await getAddonPaths([], [], path.join(root, "camoufox-bin"))).toEqual([]);
+    });
+
+    it("rejects add-ons without a manifest.json", async () => {
+        await fs.mkdir(path.join(root, "empty"), { recursive: true });
+        await expect(getAddonPaths([path.join(root, "empty")], [], executablePath)).rejects.toThrow(
+            /No 'manifest.json' found/,
+        );
+    });
+
+    it("rejects add-on paths that aren't directories", async () => {
+        await expect(getAddonPaths([path.join(root, "missing")], [], executablePath)).rejects.toThrow(
+            /not a directory/,
+        );
+    });
+
+    it("finds the default add-ons in the Resources directory of a macOS app", async () => {
+        const app = path.join(root, "Camoufox.app", "Contents");
+        const resourcesAddon = await createAddon(path.join(app, "Resources", "addons", "UBO"));
+        const platform = Object.getOwnPropertyDescriptor(process, "platform") as PropertyDescriptor;
+
+        // The install layout is picked once, when the module loads.
+        Object.defineProperty(process, "platform", { value: "darwin" });
+        vi.resetModules();
+        try {
+            const addons = await import("./addons");
+            expect(await addons.getAddonPaths([], [], path.join(app, "MacOS", "camoufox"))).toEqual([resourcesAddon]);
+        } finally {
+            Object.defineProperty(process, "platform", platform);
+            vi.resetModules();
+        }
+    });
+});
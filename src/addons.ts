@@ -0,0 +1,65 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod/v4/mini";
+import { AddonError } from "./errors";
+import { getInstallDirectories } from "./launchPath";
+
+/**
+ * Add-ons that are loaded by default when they ship in the `addons` directory of the Camoufox install.
+ */
+export const defaultAddons = ["UBO"] as const;
+
+export const zodDefaultAddon = z.enum(defaultAddons, {
+    error: `Unknown default addon, Only ${defaultAddons.map((addon) => `'${addon}'`).join(", ")} can be excluded`,
+});
+type DefaultAddon = z.infer<typeof zodDefaultAddon>;
+
+async function isDirectory(directory: string) {
+    const directoryStats = await fs.stat(directory).catch(() => undefined);
+    return directoryStats?.isDirectory() === true;
+}
+
+async function validatedAddonPath(addonPath: string) {
+    const resolvedAddon = path.resolve(addonPath);
+
+    if (await isDirectory(resolvedAddon)) {
+        const manifestStats = await fs.stat(path.join(resolvedAddon, "manifest.json")).catch(() => undefined);
+
+        if (manifestStats?.isFile()) {
+            return resolvedAddon;
+        }
+        throw new AddonError(`Addon error, No 'manifest.json' found in addon directory: ${resolvedAddon}`, {
+            context: { path: resolvedAddon },
+        });
+    }
+    throw new AddonError(`Addon error, Addon path is not a directory: ${resolvedAddon}`, {
+        context: { path: resolvedAddon },
+    });
+}
+
+/**
+ * Collect the validated add-on directories to pass to Camoufox through its `addons` config key.
+ * User add-ons come first, followed by every installed default add-on that was not excluded.
+ */
+export async function getAddonPaths(addons: string[], excludeDefaultAddons: DefaultAddon[], executablePath: string) {
+    const addonPaths = new Set<string>();
+
+    for (const addon of addons) {
+        addonPaths.add(await validatedAddonPath(addon));
+    }
+
+    const addonsDirectories = getInstallDirectories(executablePath).map((directory) => path.join(directory, "addons"));
+    for (const defaultAddon of defaultAddons.filter((addon) => !excludeDefaultAddons.includes(addon))) {
+        // The first install directory that ships the add-on wins.
+        for (const addonsDirectory of addonsDirectories) {
+            const defaultAddonPath = path.join(addonsDirectory, defaultAddon);
+
+            if (await isDirectory(defaultAddonPath)) {
+                addonPaths.add(await validatedAddonPath(defaultAddonPath));
+                break;
+            }
+        }
+    }
+
+    return [...addonPaths];
+}
@@ -0,0 +1,198 @@
+import { Buffer } from "node:buffer";
+import zlib from "node:zlib";
+import { ArchiveError } from "./errors";
+
+export type ArchiveEntry = {
+    path: string;
+    data: Buffer;
+};
+
+export type ZipEntry = {
+    path: string;
+    // Unix permission bits, if the archive was created on a Unix system.
+    mode?: number;
+    // Symbolic links store their target as data.
+    isSymlink: boolean;
+    // Decompresses the entry on every call, nothing is kept once the caller is done with it.
+    readData: () => Buffer;
+};
+
+// Tar archives are made of 512 byte blocks, every file starts with a header block.
+const tarBlockSize = 512;
+
+// Offset and length of the ustar header fields.
+const tarHeader = {
+    name: [0, 100],
+    size: [124, 12],
+    typeFlag: [156, 1],
+    magic: [257, 5],
+    prefix: [345, 155],
+} as const;
+
+const gzipMagic = [0x1f, 0x8b] as const;
+
+// Signatures of the zip records, as little endian integers.
+const zipSignature = {
+    localHeader: 0x04034b50,
+    centralDirectory: 0x02014b50,
+    endOfCentralDirectory: 0x06054b50,
+} as const;
+// The end of central directory record is 22 bytes, followed by a comment of up to 65535 bytes.
+const zipEndRecordSize = 22;
+const zipMaxCommentSize = 65_535;
+// Sizes and offsets set to their maximum value point to a zip64 record.
+const zip64Marker = 0xffff_ffff;
+const zipUnixHost = 3;
+const zipMethod = { stored: 0, deflated: 8 } as const;
+
+function readTarString(header: Buffer, [offset, length]: readonly [number, number]) {
+    const field = header.subarray(offset, offset + length);
+    const end = field.indexOf(0);
+    return field.subarray(0, end === -1 ? length : end).toString("utf8");
+}
+
+function readTarNumber(header: Buffer, field: readonly [number, number]) {
+    const octal = readTarString(header, field).trim();
+    return octal.length > 0 ? Number.parseInt(octal, 8) : 0;
+}
+
+// Pax headers are `<length> <key>=<value>\n` records, only the path is of interest.
+function readPaxPath(data: Buffer) {
+    const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data.toString("utf8"));
+    return match?.[1];
+}
+
+/**
+ * List every regular file in a tar archive, gzipped or not.
+ */
+export function readTarEntries(archive: Buffer) {
+    const tar = isGzip(archive) ? zlib.gunzipSync(archive) : archive;
+    const entries = [] as ArchiveEntry[];
+
+    let offset = 0;
+    let longPath: string | undefined;
+    while (offset + tarBlockSize <= tar.length) {
+        const header = tar.subarray(offset, offset + tarBlockSize);
+        // Two empty blocks mark the end of the archive.
+        if (header.every((byte) => byte === 0)) {
+            break;
+        }
+
+        const size = readTarNumber(header, tarHeader.size);
+        const typeFlag = String.fromCharCode(header[tarHeader.typeFlag[0]] ?? 0);
+        const prefix = readTarString(header, tarHeader.prefix);
+        const name = readTarString(header, tarHeader.name);
+        const data = tar.subarray(offset + tarBlockSize, offset + tarBlockSize + size);
+
+        if (typeFlag === "x") {
+            longPath = readPaxPath(data);
+        } else if (typeFlag === "L") {
+            longPath = readTarString(data, [0, data.length]);
+        } else {
+            if (typeFlag === "0" || typeFlag === "\0") {
+                entries.push({ path: longPath ?? (prefix ? `${prefix}/${name}` : name), data: Buffer.from(data) });
+            }
+            longPath = undefined;
+        }
+
+        offset += tarBlockSize + Math.ceil(size / tarBlockSize) * tarBlockSize;
+    }
+    return entries;
+}
+
+export function isGzip(buffer: Buffer) {
+    return buffer[0] === gzipMagic[0] && buffer[1] === gzipMagic[1];
+}
+
+export function isTar(buffer: Buffer) {
+    const tar = isGzip(buffer) ? zlib.gunzipSync(buffer) : buffer;
+    return readTarString(tar, tarHeader.magic) === "ustar";
+}
+
+export function isZip(buffer: Buffer) {
+    return buffer.length >= 4 && buffer.readUInt32LE(0) === zipSignature.localHeader;
+}
+
+function findZipEndRecord(archive: Buffer) {
+    const lowestOffset = Math.max(0, archive.length - zipEndRecordSize - zipMaxCommentSize);
+    for (let offset = archive.length - zipEndRecordSize; offset >= lowestOffset; offset--) {
+        if (archive.readUInt32LE(offset) === zipSignature.endOfCentralDirectory) {
+            return offset;
+        }
+    }
+    throw new ArchiveError("Archive error, Not a zip archive or the archive is truncated");
+}
+
+function readZipData(archive: Buffer, localHeaderOffset: number, compressedSize: number, method: number, path: string) {
+    if (archive.readUInt32LE(localHeaderOffset) !== zipSignature.localHeader) {
+        throw new ArchiveError(`Archive error, Corrupt local header for '${path}'`);
+    }
+    const dataOffset =
+        localHeaderOffset +
+        30 +
+        archive.readUInt16LE(localHeaderOffset + 26) +
+        archive.readUInt16LE(localHeaderOffset + 28);
+    const data = archive.subarray(dataOffset, dataOffset + compressedSize);
+
+    if (method === zipMethod.stored) {
+        return Buffer.from(data);
+    }
+    if (method === zipMethod.deflated) {
+        return zlib.inflateRawSync(data);
+    }
+    throw new ArchiveError(`Archive error, Unsupported compression method ${method} for '${path}'`);
+}
+
+/**
+ * List every file and symbolic link in a zip archive, one entry at a time.
+ * Entries are only decompressed by `readData`, so walking the archive holds none of them in memory.
+ */
+export function* readZipEntries(archive: Buffer): Generator<ZipEntry> {
+    const endRecord = findZipEndRecord(archive);
+    const entryCount = archive.readUInt16LE(endRecord + 10);
+    let offset = archive.readUInt32LE(endRecord + 16);
+    if (offset === zip64Marker) {
+        throw new ArchiveError("Archive error, Zip64 archives are not supported");
+    }
+
+    for (let index = 0; index < entryCount; index++) {
+        if (archive.readUInt32LE(offset) !== zipSignature.centralDirectory) {
+            throw new ArchiveError("Archive error, Corrupt zip central directory");
+        }
+
+        const versionMadeBy = archive.readUInt16LE(offset + 4);
+        const flags = archive.readUInt16LE(offset + 8);
+        const method = archive.readUInt16LE(offset + 10);
+        const compressedSize = archive.readUInt32LE(offset + 20);
+        const nameLength = archive.readUInt16LE(offset + 28);
+        const extraLength = archive.readUInt16LE(offset + 30);
+        const commentLength = archive.readUInt16LE(offset + 32);
+        const externalAttributes = archive.readUInt32LE(offset + 38);
+        const localHeaderOffset = archive.readUInt32LE(offset + 42);
+        const path = archive.subarray(offset + 46, offset + 46 + nameLength).toString("utf8");
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (compressedSize === zip64Marker || localHeaderOffset === zip64Marker) {
+            throw new ArchiveError("Archive error, Zip64 archives are not supported");
+        }
+        // The lowest flag bit marks an encrypted entry.
+        if (flags % 2 === 1) {
+            throw new ArchiveError(`Archive error, '${path}' is encrypted`);
+        }
+        if (path.endsWith("/")) {
+            continue;
+        }
+
+        // Unix archives keep the file type and permission bits in the upper 16 bits of the external attributes.
+        const unixMode =
+            Math.floor(versionMadeBy / 256) === zipUnixHost ? Math.floor(externalAttributes / 65_536) : undefined;
+        const isSymlink = unixMode !== undefined && Math.floor(unixMode / 0o10000) === 0o12;
+
+        yield {
+            path,
+            mode: unixMode === undefined ? undefined : unixMode % 0o1000,
+            isSymlink,
+            readData: () => readZipData(archive, localHeaderOffset, compressedSize, method, path),
+        };
+    }
+}
@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+import process from "node:process";
+import { z } from "zod/v4/mini";
+import { main } from "./cli";
+
+// zod/v4/mini ships without error messages, the CLI has no other way to explain invalid flags.
+z.config(z.locales.en());
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,111 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { main } from "./cli";
+import { deserializeConfig } from "./configEnv";
+
+describe("camoufox-launch-options", () => {
+    let install: string;
+    let executablePath: string;
+
+    beforeAll(async () => {
+        install = await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-cli-"));
+        // Every OS looks for its own executable name.
+        for (const executable of ["camoufox-bin", "camoufox", "camoufox.exe"]) {
+            await fs.writeFile(path.join(install, executable), "");
+        }
+        executablePath = path.join(install, "camoufox-bin");
+    });
+
+    afterAll(async () => {
+        await fs.rm(install, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        process.exitCode = undefined;
+    });
+
+    // Run the CLI and collect what it printed.
+    async function run(...args: string[]) {
+        let output = "";
+        vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+            output += String(chunk);
+            return true;
+        });
+        await main(args);
+        vi.mocked(process.stdout.write).mockRestore();
+        return output;
+    }
+
+    it("prints the executable that would be launched", async () => {
+        expect(await run("path", "--executable-path", executablePath)).toBe(`${executablePath}\n`);
+    });
+
+    it("maps nested and repeated flags onto the launch options", async () => {
+        const output = await run(
+            "options",
+            `--executable-path=${executablePath}`,
+            "--os",
+            "windows",
+            "--screen.max-width",
+            "1920",
+            "--config.navigator.hardwareConcurrency",
+            "6",
+            "--no-headless",
+        );
+        const launchOptions = JSON.parse(output) as { headless: boolean; env: Record<string, string> };
+
+        expect(launchOptions.headless).toBe(false);
+        const config = deserializeConfig(launchOptions.env);
+        expect(config).toMatchObject({ "navigator.platform": "Win32", "navigator.hardwareConcurrency": 6 });
+        expect(config["screen.width"]).toBeLessThanOrEqual(1920);
+    });
+
+    it("prints only the generated and given variables of the environment", async () => {
+        vi.stubEnv("CAMOUFOX_TEST_SECRET", "secret");
+        const output = await run("options", "--executable-path", executablePath, "--env.vars.TZ", "UTC");
+        vi.unstubAllEnvs();
+        const { env } = JSON.parse(output) as { env: Record<string, string> };
+
+        expect(Object.keys(env).filter((key) => !key.startsWith("CAMOU_CONFIG_"))).toEqual(["TZ"]);
+    });
+
+    it("prints the config as shell exports", async () => {
+        const output = await run("options", "--executable-path", executablePath, "--format", "shell", "--seed", "42");
+
+        expect(output).toMatch(/^export CAMOU_CONFIG_1='\{.*'$/m);
+        expect(output).not.toMatch(/^export (?!CAMOU_CONFIG_)/m);
+    });
+
+    it("rejects invalid flags the way the library does", async () => {
+        await expect(run("options", "--executable-path", executablePath, "--os", "amiga")).rejects.toThrow();
+        await expect(run("options", "--format", "yaml")).rejects.toThrow(/Unknown format 'yaml'/);
+        await expect(run("geo", "not-an-ip")).rejects.toThrow(/takes ONE valid ipv4 or ipv6 address/);
+    });
+
+    it("prints the usage, and fails on unknown commands", async () => {
+        expect(await run("--help")).toMatch(/^Usage: camoufox-launch-options/);
+        expect(process.exitCode).toBeUndefined();
+
+        expect(await run("launch")).toMatch(/^Usage: camoufox-launch-options/);
+        expect(process.exitCode).toBe(1);
+    });
+
+    it("reports every doctor check, and fails when one fails", async () => {
+        const output = await run("doctor", "--executable-path", executablePath);
+
+        expect(output).toContain(`[ok] install: Camoufox unknown version at ${executablePath}`);
+        expect(output).toMatch(/^\[fail\] geoip: .*'\.mmdb' file not found$/m);
+        expect(output).toContain("[skip] proxy: No proxy configured");
+        expect(output).toMatch(/^\[ok\] config: \d+ CAMOU_CONFIG chunk\(s\)/m);
+        expect(process.exitCode).toBe(1);
+    });
+
+    it("fails the doctor config check instead of starting a virtual display", async () => {
+        const output = await run("doctor", "--executable-path", executablePath, "--headless", "virtual");
+        expect(output).toMatch(/^\[fail\] config: CLI error, The virtual display would stop when the command exits/m);
+    });
+});
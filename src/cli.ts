@@ -0,0 +1,383 @@
+import process from "node:process";
+import { z } from "zod/v4/mini";
+import { getEnvironmentSize, maxEnvironmentSize } from "./configEnv";
+import { OptionsValidationError } from "./errors";
+import { findDefaultGeoIPDatabases, lookupGeoIP } from "./geoipDatabase";
+import { getCamoufoxInfo } from "./info";
+import { launchPath, osName } from "./launchPath";
+import {
+    type CamoufoxLaunchOptions,
+    camoufoxLaunchOptions,
+    parseLaunchOptions,
+    zodCamoufoxLaunchOptions,
+    zodSharedOptions,
+} from "./main";
+import { getProxySettings, getPublicIP, zodProxy } from "./proxy";
+
+type Schema = z.core.$ZodType;
+type Flags = Record<string, unknown>;
+
+const usage = `Usage: camoufox-launch-options <command> [flags]
+
+Commands:
+  options [--format json|dotenv|shell]   Print the Playwright launch options, or the CAMOU_CONFIG_n variables
+  path                                   Print the Camoufox executable that would be launched
+  ip                                     Look up the public IP address, through the proxy if one is given
+  geo <ip>                               Look up an IP address in the GeoIP database
+  doctor                                 Check the install, the GeoIP database, the proxy and the config size
+
+Flags map onto the camoufoxLaunchOptions options, nested options use dots and values are parsed as JSON:
+  --os windows --os macos --screen.max-width 1920 --no-headless
+  --proxy.server http://127.0.0.1:8080 --geoip --config '{"showcursor":false}'
+  --dry-run --explain --seed 42   Resolve without an install or network, with where every value came from
+`;
+
+// Flags of the CLI itself, everything else is an option.
+const cliFlags = ["format"];
+const negationPrefix = "no-";
+
+const zodPathFlags = z.strictObject({
+    executablePath: zodSharedOptions.executablePath,
+    version: zodSharedOptions.version,
+});
+const zodIPFlags = z.strictObject({
+    proxy: z.optional(zodProxy),
+    proxyFromEnv: z.optional(z.boolean()),
+    publicIP: zodSharedOptions.publicIP,
+});
+const zodGeoFlags = z.strictObject({
+    executablePath: zodSharedOptions.executablePath,
+    version: zodSharedOptions.version,
+    geoipDatabase: zodSharedOptions.geoipDatabase,
+    allowOutdatedGeoIPDatabase: zodSharedOptions.allowOutdatedGeoIPDatabase,
+});
+
+// Every schema a value may match, with optionals unwrapped and unions flattened.
+function getVariants(schema: Schema): Schema[] {
+    const def = schema._zod.def;
+    if (def.type === "optional") {
+        return getVariants((def as z.core.$ZodOptionalDef).innerType);
+    }
+    if (def.type === "union") {
+        return (def as z.core.$ZodUnionDef).options.flatMap(getVariants);
+    }
+    return [schema];
+}
+
+function toCamelCase(flag: string) {
+    return flag.replace(/-([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Map a dotted flag name onto the option keys of a schema, ignoring case and dashes.
+ * Record options take the rest of the flag name as their key, so config keys can contain dots.
+ */
+function resolveFlagPath(schema: Schema, flagPath: string[]) {
+    const keys = [] as string[];
+    let candidates = [schema];
+
+    for (const [index, flagKey] of flagPath.entries()) {
+        const variants = candidates.flatMap(getVariants);
+        const record = variants.find((variant) => variant._zod.def.type === "record");
+        if (record) {
+            keys.push(flagPath.slice(index).join("."));
+            return { keys, candidates: [(record._zod.def as z.core.$ZodRecordDef).valueType] };
+        }
+
+        // Every branch of a union may declare the option, each with its own schema.
+        const normalizedKey = flagKey.replaceAll("-", "").toLowerCase();
+        let key: string | undefined;
+        const matches = [] as Schema[];
+        for (const variant of variants.filter((objectVariant) => objectVariant._zod.def.type === "object")) {
+            const { shape } = variant._zod.def as z.core.$ZodObjectDef;
+            const shapeKey = Object.keys(shape).find((optionKey) => optionKey.toLowerCase() === normalizedKey);
+            if (shapeKey !== undefined && shape[shapeKey]) {
+                key = shapeKey;
+                matches.push(shape[shapeKey]);
+            }
+        }
+
+        // Unknown flags are kept, so the schema reports them just like the library does.
+        keys.push(key ?? toCamelCase(flagKey));
+        candidates = matches;
+    }
+    return { keys, candidates };
+}
+
+function parseFlagValue(value: string | boolean, candidates: Schema[]) {
+    const variants = candidates.flatMap(getVariants);
+    const isType = (type: z.core.$ZodTypeDef["type"]) =>
+        variants.length > 0 && variants.every((variant) => variant._zod.def.type === type);
+
+    let parsed: unknown = value;
+    // Plain string options are taken as-is, so `--version 135.0` isn't turned into a number.
+    if (typeof value === "string" && !isType("string")) {
+        try {
+            parsed = JSON.parse(value);
+        } catch {
+            parsed = value;
+        }
+    }
+    return isType("array") && !Array.isArray(parsed) ? [parsed] : parsed;
+}
+
+function setFlag(flags: Flags, keys: string[], value: unknown) {
+    let target = flags;
+    for (const key of keys.slice(0, -1)) {
+        const next = target[key];
+        target[key] = typeof next === "object" && next !== null && !Array.isArray(next) ? next : {};
+        target = target[key] as Flags;
+    }
+
+    const key = keys.at(-1) ?? "";
+    const existing = target[key];
+    // Repeated flags build up a list.
+    if (existing === undefined) {
+        target[key] = value;
+    } else {
+        target[key] = [
+            ...(Array.isArray(existing) ? existing : [existing]),
+            ...(Array.isArray(value) ? value : [value]),
+        ];
+    }
+}
+
+/**
+ * Parse command line arguments into positionals, CLI flags and options for the given schema.
+ * Takes `--flag value`, `--flag=value`, `--flag` for `true` and `--no-flag` for `false`.
+ */
+function parseArguments(args: string[], schema: Schema) {
+    const positionals = [] as string[];
+    const cli = {} as Record<string, string | boolean>;
+    const options = {} as Flags;
+
+    for (let index = 0; index < args.length; index++) {
+        const argument = args[index] ?? "";
+        if (argument === "--") {
+            positionals.push(...args.slice(index + 1));
+            break;
+        }
+        if (!argument.startsWith("--")) {
+            positionals.push(argument);
+            continue;
+        }
+
+        const [rawName = "", inlineValue] = argument.slice(2).split(/=(.*)/s);
+        const negated = inlineValue === undefined && rawName.startsWith(negationPrefix);
+        const name = negated ? rawName.slice(negationPrefix.length) : rawName;
+
+        let value: string | boolean = !negated;
+        if (inlineValue !== undefined) {
+            value = inlineValue;
+        } else if (!negated && args[index + 1] !== undefined && !args[index + 1]?.startsWith("--")) {
+            index += 1;
+            value = args[index] ?? "";
+        }
+
+        if (cliFlags.includes(name)) {
+            cli[name] = value;
+            continue;
+        }
+        const resolved = resolveFlagPath(schema, name.split("."));
+        setFlag(options, resolved.keys, parseFlagValue(value, resolved.candidates));
+    }
+    return { positionals, cli, options };
+}
+
+function validateFlags<T extends Schema>(schema: T, flags: Flags) {
+    const validated = z.safeParse(schema, flags);
+    if (!validated.success) {
+        throw new OptionsValidationError(z.prettifyError(validated.error), validated.error.issues);
+    }
+    return validated.data;
+}
+
+function printJson(value: unknown) {
+    process.stdout.write(`${JSON.stringify(value, null, 4)}\n`);
+}
+
+const configEnvKey = /^CAMOU_CONFIG_\d+$/;
+
+// Keep the generated variables and the ones given in `env.vars`, every other variable was inherited from the caller.
+function getGeneratedEnv(env: Record<string, string | number | boolean>, vars: Record<string, string> = {}) {
+    return Object.fromEntries(
+        Object.entries(env).filter(([key]) => configEnvKey.test(key) || Object.hasOwn(vars, key)),
+    );
+}
+
+// Only the generated variables are printed, the rest of the environment belongs to the caller.
+function formatConfigEnv(env: Record<string, string | number | boolean>, format: string) {
+    const configEnv = Object.entries(env).filter(
+        (entry): entry is [string, string] => configEnvKey.test(entry[0]) && typeof entry[1] === "string",
+    );
+
+    if (format === "dotenv") {
+        return configEnv.map(([key, value]) => `${key}="${value.replace(/[\\"]/g, "\\$&").replace(/\n/g, "\\n")}"`);
+    }
+    return configEnv.map(([key, value]) => `export ${key}='${value.replaceAll("'", "'\\''")}'`);
+}
+
+function checkHeadless(options: CamoufoxLaunchOptions) {
+    if (options.headless === "virtual") {
+        throw new OptionsValidationError(
+            "CLI error, The virtual display would stop when the command exits, Use 'headless: \"virtual\"' from the library",
+        );
+    }
+}
+
+async function optionsCommand(args: string[]) {
+    const { cli, options } = parseArguments(args, zodCamoufoxLaunchOptions);
+    const format = cli.format ?? "json";
+    if (format !== "json" && format !== "dotenv" && format !== "shell") {
+        throw new OptionsValidationError(`CLI error, Unknown format '${format}', Use 'json', 'dotenv' or 'shell'`);
+    }
+
+    const zvui = parseLaunchOptions(options as CamoufoxLaunchOptions);
+    checkHeadless(zvui);
+    const launchOptions = await camoufoxLaunchOptions(zvui);
+    if (format === "json") {
+        // The caller's environment could hold secrets, and the explanation isn't enumerable, it has to be printed on purpose.
+        const printable = { ...launchOptions, env: getGeneratedEnv(launchOptions.env ?? {}, zvui.env?.vars) };
+        printJson(zvui.explain ? { ...printable, explanation: launchOptions.explanation } : printable);
+        return;
+    }
+    process.stdout.write(`${formatConfigEnv(launchOptions.env ?? {}, format).join("\n")}\n`);
+}
+
+async function pathCommand(args: string[]) {
+    const { executablePath, version } = validateFlags(zodPathFlags, parseArguments(args, zodPathFlags).options);
+    process.stdout.write(`${await launchPath(executablePath, version)}\n`);
+}
+
+async function ipCommand(args: string[]) {
+    const flags = validateFlags(zodIPFlags, parseArguments(args, zodIPFlags).options);
+    printJson(await getPublicIP(true, getProxySettings(flags), flags.publicIP));
+}
+
+async function getGeoIPDatabases({ executablePath, version, geoipDatabase }: z.infer<typeof zodGeoFlags>) {
+    if (geoipDatabase) {
+        return [geoipDatabase].flat();
+    }
+    return findDefaultGeoIPDatabases(await launchPath(executablePath, version));
+}
+
+async function geoCommand(args: string[]) {
+    const { positionals, options } = parseArguments(args, zodGeoFlags);
+    const ip = z.union([z.ipv4(), z.ipv6()]).safeParse(positionals[0]);
+    if (!ip.success) {
+        throw new OptionsValidationError("CLI error, 'geo' takes ONE valid ipv4 or ipv6 address");
+    }
+
+    const flags = validateFlags(zodGeoFlags, options);
+    printJson(
+        await lookupGeoIP(ip.data, await getGeoIPDatabases(flags), { allowOutdated: flags.allowOutdatedGeoIPDatabase }),
+    );
+}
+
+type CheckResult = { status: "ok" | "warn" | "fail" | "skip"; message: string };
+
+async function runCheck(name: string, check: () => Promise<CheckResult>) {
+    let result: CheckResult;
+    try {
+        result = await check();
+    } catch (error) {
+        result = { status: "fail", message: error instanceof Error ? error.message : String(error) };
+    }
+    process.stdout.write(`[${result.status}] ${name}: ${result.message.replaceAll("\n", " ")}\n`);
+    return result.status !== "fail";
+}
+
+async function doctorCommand(args: string[]) {
+    const flags = parseLaunchOptions(parseArguments(args, zodCamoufoxLaunchOptions).options as CamoufoxLaunchOptions);
+    const checks = [] as boolean[];
+    const infoLookup = getCamoufoxInfo(flags);
+
+    checks.push(
+        await runCheck("install", async () => {
+            const info = await infoLookup;
+            const version = info.version ?? info.firefoxVersion ?? "unknown version";
+            return { status: "ok", message: `Camoufox ${version} at ${info.executablePath}` };
+        }),
+    );
+    checks.push(
+        await runCheck("playwright", async () => {
+            const { playwright } = await infoLookup;
+            if (playwright.version === undefined) {
+                return { status: "fail", message: "playwright-core is not installed" };
+            }
+            if (playwright.compatible === undefined) {
+                return {
+                    status: "warn",
+                    message: `playwright-core ${playwright.version} is not in the compatibility table`,
+                };
+            }
+            return playwright.compatible
+                ? { status: "ok", message: `playwright-core ${playwright.version} can drive this build` }
+                : {
+                      status: "warn",
+                      message: `playwright-core ${playwright.version} may not drive this build, it needs ${playwright.supportedVersions}`,
+                  };
+        }),
+    );
+    checks.push(
+        await runCheck("geoip", async () => {
+            const databases = await getGeoIPDatabases(flags);
+            // Opening the databases checks that they're valid and up to date.
+            await lookupGeoIP("1.1.1.1", databases, { allowOutdated: flags.allowOutdatedGeoIPDatabase });
+            return { status: "ok", message: databases.map(String).join(", ") };
+        }),
+    );
+    checks.push(
+        await runCheck("proxy", async () => {
+            const proxy = getProxySettings(flags);
+            if (proxy === undefined) {
+                return { status: "skip", message: "No proxy configured" };
+            }
+            const publicIP = await getPublicIP(true, proxy, { ...flags.publicIP, cacheTTL: 0 });
+            const address = publicIP.ipv4 || publicIP.ipv6;
+            return { status: "ok", message: `${proxy.server} is reachable, public IP ${address}` };
+        }),
+    );
+    checks.push(
+        await runCheck("config", async () => {
+            checkHeadless(flags);
+            // Nothing the launch options hold on to may outlive the check.
+            await using launchOptions = await camoufoxLaunchOptions(flags);
+            const { env = {} } = launchOptions;
+            const size = getEnvironmentSize(env);
+            const limit = maxEnvironmentSize[osName];
+            const chunks = Object.keys(env).filter((key) => key.startsWith("CAMOU_CONFIG_")).length;
+            const message = `${chunks} CAMOU_CONFIG chunk(s), environment is ${size} of ${limit} characters`;
+            return { status: size > limit ? "fail" : "ok", message };
+        }),
+    );
+
+    if (checks.includes(false)) {
+        process.exitCode = 1;
+    }
+}
+
+const commands: Record<string, (args: string[]) => Promise<void>> = {
+    options: optionsCommand,
+    path: pathCommand,
+    ip: ipCommand,
+    geo: geoCommand,
+    doctor: doctorCommand,
+};
+
+/**
+ * Run a command with its flags, as given on the command line.
+ */
+export async function main(args: string[]) {
+    const [commandName, ...commandArgs] = args;
+    const command = commandName ? commands[commandName] : undefined;
+
+    if (command === undefined || commandArgs.includes("--help")) {
+        process.stdout.write(usage);
+        if (commandName !== undefined && commandName !== "--help" && command === undefined) {
+            process.exitCode = 1;
+        }
+        return;
+    }
+    await command(commandArgs);
+}
@@ -0,0 +1,12 @@
+/**
+ * Firefox major versions of Camoufox builds, and the playwright-core minor versions whose Juggler protocol they speak.
+ * Builds and playwright-core versions missing from this table are assumed to be compatible.
+ * Camoufox patches Firefox with the Juggler of the Playwright release bundling the same Firefox version,
+ * see `browserVersion` of `firefox` in each release's `browsers.json`, and the Firefox version of every build on
+ * https://github.com/daijro/camoufox/releases
+ */
+export const jugglerCompatibility = [
+    { firefox: [128, 131], playwright: [46, 48] },
+    { firefox: [132, 134], playwright: [49, 50] },
+    { firefox: [135, 136], playwright: [51, 55] },
+] as const;
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { buildLaunchEnv, deserializeConfig, serializeConfig } from "./configEnv";
+
+describe("serializeConfig", () => {
+    it("splits the JSON into numbered chunks of at most the chunk size", () => {
+        const config = { "navigator.userAgent": "Mozilla/5.0", fonts: ["Arial", "Calibri", "Segoe UI"] };
+        const envVars = serializeConfig(config, 10);
+
+        const chunks = Object.values(envVars);
+        expect(Object.keys(envVars)).toEqual(chunks.map((_, index) => `CAMOU_CONFIG_${index + 1}`));
+        expect(chunks.every((chunk) => chunk.length > 0 && chunk.length <= 10)).toBe(true);
+        expect(chunks.join("")).toBe(JSON.stringify(config));
+    });
+
+    it("keeps a small config in a single chunk", () => {
+        expect(serializeConfig({ humanize: true })).toEqual({ CAMOU_CONFIG_1: '{"humanize":true}' });
+    });
+
+    it("never splits a surrogate pair across two chunks", () => {
+        // `{"a":"` is 6 characters, so a 7 character chunk would end on the first half of the emoji.
+        const envVars = serializeConfig({ a: "😀😀" }, 7);
+
+        expect(envVars).toEqual({ CAMOU_CONFIG_1: '{"a":"', CAMOU_CONFIG_2: '😀😀"}' });
+        expect(deserializeConfig(envVars)).toEqual({ a: "😀😀" });
+    });
+
+    it("round-trips through deserializeConfig", () => {
+        const config = {
+            "locale:all": "en-US, de-DE",
+            "screen:width": 1920,
+            voices: [{ name: "Zira", lang: "en-US" }],
+        };
+        expect(deserializeConfig(serializeConfig(config, 16))).toEqual(config);
+    });
+});
+
+describe("buildLaunchEnv", () => {
+    it("drops stale chunks of the inherited environment", () => {
+        const inheritedEnv = { PATH: "/usr/bin", CAMOU_CONFIG_1: "{}", CAMOU_CONFIG_7: "stale" };
+        const { env, report } = buildLaunchEnv({ humanize: true }, {}, inheritedEnv);
+
+        expect(env).toEqual({ PATH: "/usr/bin", CAMOU_CONFIG_1: '{"humanize":true}' });
+        expect(report).toEqual({ dropped: ["CAMOU_CONFIG_7"], overridden: ["CAMOU_CONFIG_1"] });
+    });
+
+    it("only inherits the listed variables, with trailing wildcards", () => {
+        const inheritedEnv = { PATH: "/usr/bin", LC_ALL: "C", LC_TIME: "C", AWS_SECRET_ACCESS_KEY: "secret" };
+        const { env, report } = buildLaunchEnv({}, { inherit: ["PATH", "LC_*"] }, inheritedEnv);
+
+        expect(env).toEqual({ PATH: "/usr/bin", LC_ALL: "C", LC_TIME: "C", CAMOU_CONFIG_1: "{}" });
+        expect(report.dropped).toEqual(["AWS_SECRET_ACCESS_KEY"]);
+        expect(buildLaunchEnv({}, { inherit: "none" }, inheritedEnv).env).toEqual({ CAMOU_CONFIG_1: "{}" });
+    });
+
+    it("lets user variables win over inherited ones", () => {
+        const { env, report } = buildLaunchEnv({}, { vars: { TZ: "UTC" } }, { TZ: "Europe/Berlin" });
+
+        expect(env.TZ).toBe("UTC");
+        expect(report.overridden).toEqual(["TZ"]);
+    });
+
+    it("rejects chunks set through vars", () => {
+        expect(() => buildLaunchEnv({}, { vars: { CAMOU_CONFIG_2: "{}" } }, {})).toThrow(/CAMOU_CONFIG_2/);
+    });
+});
+
+describe("deserializeConfig", () => {
+    it("stops at the first missing chunk", () => {
+        expect(deserializeConfig({ CAMOU_CONFIG_1: '{"a":', CAMOU_CONFIG_2: "1}", CAMOU_CONFIG_4: "x" })).toEqual({
+            a: 1,
+        });
+    });
+
+    it("returns an empty config without chunks", () => {
+        expect(deserializeConfig({ PATH: "/usr/bin" })).toEqual({});
+    });
+
+    it("refuses JSON that isn't an object", () => {
+        expect(() => deserializeConfig({ CAMOU_CONFIG_1: "[1,2]" })).toThrow(/Camoufox config error/);
+    });
+});
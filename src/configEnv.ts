@@ -0,0 +1,183 @@
+import process from "node:process";
+import { z } from "zod/v4/mini";
+import { ConfigError, EnvironmentError } from "./errors";
+import { osName } from "./launchPath";
+
+// Camoufox reads its config from JSON split across `CAMOU_CONFIG_1` to `CAMOU_CONFIG_n`.
+// Windows limits the length of a single environment variable far below Linux and macOS.
+const maxChunkSize = {
+    win32: 2047,
+    darwin: 32767,
+    linux: 32767,
+} as const;
+
+/**
+ * Size limit of the whole environment, Windows caps the environment block at 32767 characters,
+ * while Linux and macOS share `ARG_MAX` between the environment and the command line arguments.
+ */
+export const maxEnvironmentSize = {
+    win32: 32_767,
+    darwin: 1_048_576,
+    linux: 2_097_152,
+} as const;
+
+const configEnvKey = /^CAMOU_CONFIG_(\d+)$/;
+
+const highSurrogateStart = 0xd800;
+const highSurrogateEnd = 0xdbff;
+
+function isHighSurrogate(charCode: number) {
+    return charCode >= highSurrogateStart && charCode <= highSurrogateEnd;
+}
+
+/**
+ * Serialize a Camoufox config into `CAMOU_CONFIG_n` environment variables.
+ * Each chunk stays under the environment variable size limit of the current OS.
+ */
+export function serializeConfig(config: Record<string, unknown>, chunkSize: number = maxChunkSize[osName]) {
+    const json = JSON.stringify(config);
+    const envVars = {} as Record<string, string>;
+
+    let start = 0;
+    let chunkNumber = 1;
+    while (start < json.length) {
+        let end = Math.min(start + chunkSize, json.length);
+        // Never split a surrogate pair across two chunks.
+        if (end < json.length && isHighSurrogate(json.charCodeAt(end - 1))) {
+            end -= 1;
+        }
+        envVars[`CAMOU_CONFIG_${chunkNumber}`] = json.slice(start, end);
+        start = end;
+        chunkNumber += 1;
+    }
+    return envVars;
+}
+
+/**
+ * What happened to the inherited environment variables while building the browser environment.
+ */
+export type EnvReport = {
+    // Inherited variables that were not passed on, either not inherited or stale `CAMOU_CONFIG_n` chunks.
+    dropped: string[];
+    // Inherited variables replaced by a user variable or a generated `CAMOU_CONFIG_n` chunk.
+    overridden: string[];
+};
+
+export const zodEnvOptions = z.strictObject({
+    /**
+     * Which variables of `process.env` the browser inherits.
+     * Either `"all"`, `"none"`, or a list of names where a trailing `*` matches any suffix, like `["PATH", "LC_*"]`.
+     * Defaults to `"all"`
+     */
+    inherit: z.optional(z.union([z.literal("all"), z.literal("none"), z.array(z.string().check(z.minLength(1)))])),
+    /**
+     * Extra variables for the browser, these win over inherited ones.
+     * For example: `{ "MOZ_LOG": "nsHttp:5" }`
+     */
+    vars: z.optional(z.record(z.string(), z.string())),
+    /**
+     * Called with the inherited variables that were dropped or overridden.
+     */
+    onReport: z.optional(z.custom<(report: EnvReport) => void>((value) => typeof value === "function")),
+});
+export type EnvOptions = z.infer<typeof zodEnvOptions>;
+
+// Windows environment variable names are case insensitive.
+function normalizeEnvKey(key: string) {
+    return osName === "win32" ? key.toUpperCase() : key;
+}
+
+function isInherited(key: string, inherit: NonNullable<EnvOptions["inherit"]>) {
+    if (inherit === "all" || inherit === "none") {
+        return inherit === "all";
+    }
+    const normalizedKey = normalizeEnvKey(key);
+    return inherit.some((pattern) => {
+        const normalizedPattern = normalizeEnvKey(pattern);
+        return normalizedPattern.endsWith("*")
+            ? normalizedKey.startsWith(normalizedPattern.slice(0, -1))
+            : normalizedKey === normalizedPattern;
+    });
+}
+
+/**
+ * Build the browser environment from the inherited variables, the user variables and the serialized config.
+ * The generated `CAMOU_CONFIG_n` chunks always win, neither inherited nor user variables can replace them.
+ */
+export function buildLaunchEnv(
+    config: Record<string, unknown>,
+    { inherit = "all", vars = {} }: Pick<EnvOptions, "inherit" | "vars">,
+    inheritedEnv: Record<string, string | undefined> = process.env,
+) {
+    const configEnv = serializeConfig(config);
+    const report: EnvReport = { dropped: [], overridden: [] };
+
+    const userKeys = new Set(Object.keys(vars).map(normalizeEnvKey));
+    const configKeys = new Set(Object.keys(configEnv).map(normalizeEnvKey));
+    for (const key of Object.keys(vars)) {
+        if (configEnvKey.test(key)) {
+            throw new EnvironmentError(
+                `Environment error, '${key}' is generated from the config and can't be set in 'vars'`,
+                {
+                    context: { key },
+                },
+            );
+        }
+    }
+
+    const env = {} as Record<string, string>;
+    for (const [key, value] of Object.entries(inheritedEnv)) {
+        if (value === undefined) {
+            continue;
+        }
+        const normalizedKey = normalizeEnvKey(key);
+        if (userKeys.has(normalizedKey) || configKeys.has(normalizedKey)) {
+            report.overridden.push(key);
+        } else if (configEnvKey.test(key) || !isInherited(key, inherit)) {
+            report.dropped.push(key);
+        } else {
+            env[key] = value;
+        }
+    }
+
+    return { env: { ...env, ...vars, ...configEnv }, report };
+}
+
+/**
+ * Size of an environment as the OS counts it, every variable takes `KEY=value` plus a terminator.
+ */
+export function getEnvironmentSize(env: Record<string, string | number | boolean | undefined>) {
+    let size = 0;
+    for (const [key, value] of Object.entries(env)) {
+        if (value !== undefined) {
+            size += key.length + String(value).length + 2;
+        }
+    }
+    return size;
+}
+
+/**
+ * Reassemble and parse the `CAMOU_CONFIG_n` chunks of an environment, the same way Camoufox does.
+ */
+export function deserializeConfig(env: Record<string, string | undefined>) {
+    let json = "";
+    for (let chunkNumber = 1; ; chunkNumber += 1) {
+        const chunk = env[`CAMOU_CONFIG_${chunkNumber}`];
+        if (chunk === undefined) {
+            break;
+        }
+        json += chunk;
+    }
+
+    if (json.length === 0) {
+        return {} as Record<string, unknown>;
+    }
+
+    const parsedConfig = z.record(z.string(), z.unknown()).safeParse(JSON.parse(json));
+    if (!parsedConfig.success) {
+        throw new ConfigError(`Camoufox config error, ${z.prettifyError(parsedConfig.error)}`, {
+            context: { issues: parsedConfig.error.issues },
+        });
+    }
+    return parsedConfig.data;
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { validateConfigProperties } from "./configProperties";
+
+describe("validateConfigProperties", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("accepts values of the bundled property types", () => {
+        expect(() =>
+            validateConfigProperties({
+                "navigator.userAgent": "Mozilla/5.0",
+                "navigator.hardwareConcurrency": 8,
+                "window.screenX": -8,
+                "window.devicePixelRatio": 1.25,
+                "navigator.cookieEnabled": true,
+                "navigator.languages": ["en-US", "en"],
+                "webGl:parameters": { "3379": 16384 },
+            }),
+        ).not.toThrow();
+    });
+
+    it.each([
+        ["navigator.userAgent", 5, /must be a string/],
+        ["navigator.hardwareConcurrency", -1, /must be an unsigned integer/],
+        ["window.screenX", 1.5, /must be an integer/],
+        ["navigator.cookieEnabled", "yes", /must be a boolean/],
+        ["navigator.languages", "en-US", /must be an array/],
+        ["webGl:parameters", ["3379"], /must be an object/],
+        ["webGl:parameters", null, /must be an object/],
+    ])("rejects a wrong type for '%s'", (key, value, message) => {
+        expect(() => validateConfigProperties({ [key]: value })).toThrow(message);
+    });
+
+    it("warns about unknown properties and passes them through", () => {
+        const emitWarning = vi.spyOn(process, "emitWarning").mockImplementation(() => undefined);
+
+        expect(() => validateConfigProperties({ "my:property": 1 })).not.toThrow();
+        expect(emitWarning).toHaveBeenCalledWith(expect.stringContaining("'my:property'"), {
+            code: "CAMOUFOX_UNKNOWN_CONFIG_PROPERTY",
+        });
+    });
+});
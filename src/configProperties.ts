@@ -0,0 +1,176 @@
+import process from "node:process";
+import { ConfigError } from "./errors";
+import type { ConfigValue } from "./helper";
+
+// Bundled table of the properties Camoufox understands, and the type each one has to be.
+type PropertyType = "str" | "int" | "uint" | "double" | "bool" | "array" | "dict";
+
+const webglProperties = (prefix: "webGl" | "webGl2") =>
+    ({
+        [`${prefix}:renderer`]: "str",
+        [`${prefix}:vendor`]: "str",
+        [`${prefix}:supportedExtensions`]: "array",
+        [`${prefix}:contextAttributes`]: "dict",
+        [`${prefix}:parameters`]: "dict",
+        [`${prefix}:parameters:blockIfNotDefined`]: "bool",
+        [`${prefix}:shaderPrecisionFormats`]: "dict",
+        [`${prefix}:shaderPrecisionFormats:blockIfNotDefined`]: "bool",
+    }) as Record<string, PropertyType>;
+
+export const configProperties: Record<string, PropertyType> = {
+    "navigator.userAgent": "str",
+    "navigator.doNotTrack": "str",
+    "navigator.appCodeName": "str",
+    "navigator.appName": "str",
+    "navigator.appVersion": "str",
+    "navigator.oscpu": "str",
+    "navigator.language": "str",
+    "navigator.languages": "array",
+    "navigator.platform": "str",
+    "navigator.hardwareConcurrency": "uint",
+    "navigator.product": "str",
+    "navigator.productSub": "str",
+    "navigator.maxTouchPoints": "uint",
+    "navigator.cookieEnabled": "bool",
+    "navigator.globalPrivacyControl": "bool",
+    "navigator.buildID": "str",
+    "navigator.onLine": "bool",
+    pdfViewerEnabled: "bool",
+
+    "screen.width": "uint",
+    "screen.height": "uint",
+    "screen.availWidth": "uint",
+    "screen.availHeight": "uint",
+    "screen.availTop": "uint",
+    "screen.availLeft": "uint",
+    "screen.colorDepth": "uint",
+    "screen.pixelDepth": "uint",
+    "screen.pageXOffset": "double",
+    "screen.pageYOffset": "double",
+
+    "window.outerWidth": "uint",
+    "window.outerHeight": "uint",
+    "window.innerWidth": "uint",
+    "window.innerHeight": "uint",
+    "window.screenX": "int",
+    "window.screenY": "int",
+    "window.scrollMinX": "int",
+    "window.scrollMinY": "int",
+    "window.scrollMaxX": "int",
+    "window.scrollMaxY": "int",
+    "window.devicePixelRatio": "double",
+    "window.history.length": "uint",
+
+    "document.body.clientWidth": "uint",
+    "document.body.clientHeight": "uint",
+    "document.body.clientTop": "uint",
+    "document.body.clientLeft": "uint",
+
+    "headers.User-Agent": "str",
+    "headers.Accept-Language": "str",
+    "headers.Accept-Encoding": "str",
+
+    "webrtc:ipv4": "str",
+    "webrtc:ipv6": "str",
+    "webrtc:localipv4": "str",
+    "webrtc:localipv6": "str",
+
+    "locale:language": "str",
+    "locale:region": "str",
+    "locale:script": "str",
+    "locale:all": "str",
+    timezone: "str",
+    "geolocation:latitude": "double",
+    "geolocation:longitude": "double",
+    "geolocation:accuracy": "double",
+
+    humanize: "bool",
+    "humanize:maxTime": "double",
+    "humanize:minTime": "double",
+    showcursor: "bool",
+
+    ...webglProperties("webGl"),
+    ...webglProperties("webGl2"),
+
+    "canvas:aaOffset": "int",
+    "canvas:aaCapOffset": "bool",
+
+    "AudioContext:sampleRate": "uint",
+    "AudioContext:outputLatency": "double",
+    "AudioContext:maxChannelCount": "uint",
+
+    "mediaDevices:enabled": "bool",
+    "mediaDevices:micros": "uint",
+    "mediaDevices:webcams": "uint",
+    "mediaDevices:speakers": "uint",
+
+    "battery:charging": "bool",
+    "battery:chargingTime": "double",
+    "battery:dischargingTime": "double",
+    "battery:level": "double",
+
+    fonts: "array",
+    "fonts:spacing_seed": "uint",
+    voices: "array",
+    "voices:blockIfNotDefined": "bool",
+    "voices:fakeCompletion": "bool",
+    "voices:fakeCompletion:charsPerSecond": "double",
+
+    addons: "array",
+    debug: "bool",
+    disableTheming: "bool",
+    memorysaver: "bool",
+    allowMainWorld: "bool",
+    forceScopeAccess: "bool",
+};
+
+const propertyTypeNames: Record<PropertyType, string> = {
+    str: "a string",
+    int: "an integer",
+    uint: "an unsigned integer",
+    double: "a number",
+    bool: "a boolean",
+    array: "an array",
+    dict: "an object",
+};
+
+function matchesPropertyType(value: ConfigValue, propertyType: PropertyType) {
+    switch (propertyType) {
+        case "str":
+            return typeof value === "string";
+        case "int":
+            return Number.isInteger(value);
+        case "uint":
+            return Number.isInteger(value) && (value as number) >= 0;
+        case "double":
+            return typeof value === "number" && Number.isFinite(value);
+        case "bool":
+            return typeof value === "boolean";
+        case "array":
+            return Array.isArray(value);
+        case "dict":
+            return typeof value === "object" && value !== null && !Array.isArray(value);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Check every known key of a user supplied config against the bundled property type table.
+ * Unknown keys are passed through as-is, but produce a warning.
+ */
+export function validateConfigProperties(config: Record<string, ConfigValue>) {
+    for (const [key, value] of Object.entries(config)) {
+        const propertyType = configProperties[key];
+
+        if (propertyType === undefined) {
+            process.emitWarning(`Unknown Camoufox config property '${key}', passing it through unchecked`, {
+                code: "CAMOUFOX_UNKNOWN_CONFIG_PROPERTY",
+            });
+        } else if (!matchesPropertyType(value, propertyType)) {
+            throw new ConfigError(`Config error, '${key}' must be ${propertyTypeNames[propertyType]}`, {
+                context: { key, expectedType: propertyType },
+            });
+        }
+    }
+}
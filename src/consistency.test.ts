@@ -0,0 +1,101 @@
+import os from "node:os";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { checkConsistency } from "./consistency";
+
+const proxy = { server: "http://proxy.example.com:3128" };
+
+// A host interface with the given IPv6 address.
+function ipv6Interface(address: string) {
+    return { eth0: [{ address, family: "IPv6", internal: false } as os.NetworkInterfaceInfo] };
+}
+
+describe("checkConsistency", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    function spyOnWarnings() {
+        return vi.spyOn(process, "emitWarning").mockImplementation(() => undefined);
+    }
+
+    it("warns about a proxy without a time zone or WebRTC addresses", () => {
+        const emitWarning = spyOnWarnings();
+        checkConsistency({ config: {}, firefoxPrefs: {}, proxy }, {});
+
+        const codes = emitWarning.mock.calls.map(([, options]) => (options as { code: string }).code);
+        expect(codes).toEqual(["CAMOUFOX_PROXY_HOST_TIMEZONE", "CAMOUFOX_WEBRTC_ADDRESS_LEAK"]);
+    });
+
+    it("warns about an IPv4 only WebRTC address unless IPv6 is disabled", () => {
+        const emitWarning = spyOnWarnings();
+        vi.spyOn(os, "networkInterfaces").mockReturnValue(ipv6Interface("2001:db8::7"));
+        const config = { timezone: "Europe/London", "webrtc:ipv4": "203.0.113.7" };
+
+        checkConsistency({ config, firefoxPrefs: {}, proxy }, {});
+        checkConsistency({ config, firefoxPrefs: { "network.dns.disableIPv6": true }, proxy }, {});
+        expect(emitWarning).toHaveBeenCalledOnce();
+        expect(emitWarning.mock.calls[0]?.[1]).toMatchObject({ code: "CAMOUFOX_WEBRTC_IPV6_LEAK" });
+    });
+
+    it("leaves out the IPv6 warning when the host has no public IPv6 address", () => {
+        const emitWarning = spyOnWarnings();
+        vi.spyOn(os, "networkInterfaces").mockReturnValue(ipv6Interface("fe80::1"));
+
+        checkConsistency(
+            { config: { timezone: "Europe/London", "webrtc:ipv4": "203.0.113.7" }, firefoxPrefs: {}, proxy },
+            {},
+        );
+        expect(emitWarning).not.toHaveBeenCalled();
+    });
+
+    it("checks the locale and time zone against the geolocation", () => {
+        const emitWarning = spyOnWarnings();
+        const config = { "locale:region": "US", timezone: "America/New_York" };
+
+        checkConsistency(
+            { config, firefoxPrefs: {}, proxy: undefined, geoip: { countryCode: "GB", timezone: "Europe/London" } },
+            {},
+        );
+        expect(emitWarning.mock.calls.map(([message]) => message)).toEqual([
+            "Locale region 'US' doesn't fit the geolocation country 'GB'",
+            "Time zone 'America/New_York' doesn't fit the geolocation, which is in 'Europe/London'",
+        ]);
+    });
+
+    it("reads the locale country from the first entry of locale:all", () => {
+        const emitWarning = spyOnWarnings();
+
+        checkConsistency(
+            {
+                config: { "locale:all": "de_DE, en_US", timezone: "Europe/Berlin" },
+                firefoxPrefs: {},
+                proxy: undefined,
+                geoip: { countryCode: "FR", timezone: "Europe/Berlin" },
+            },
+            {},
+        );
+        expect(emitWarning.mock.calls.map(([message]) => message)).toEqual([
+            "Locale region 'DE' doesn't fit the geolocation country 'FR'",
+        ]);
+    });
+
+    it("throws every rule set to error at once, and ignores the ignored ones", () => {
+        const emitWarning = spyOnWarnings();
+        const input = { config: {}, firefoxPrefs: {}, proxy };
+
+        expect(() =>
+            checkConsistency(input, { consistency: { proxyTimezone: "error", webrtcAddress: "ignore" } }),
+        ).toThrow(/^Consistency error, \[CAMOUFOX_PROXY_HOST_TIMEZONE\]/);
+        expect(emitWarning).not.toHaveBeenCalled();
+    });
+
+    it("skips every rule with iKnowWhatImDoing", () => {
+        const emitWarning = spyOnWarnings();
+        const input = { config: {}, firefoxPrefs: {}, proxy };
+
+        expect(() =>
+            checkConsistency(input, { consistency: { proxyTimezone: "error" }, iKnowWhatImDoing: true }),
+        ).not.toThrow();
+        expect(emitWarning).not.toHaveBeenCalled();
+    });
+});
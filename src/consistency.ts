@@ -0,0 +1,163 @@
+import os from "node:os";
+import process from "node:process";
+import { z } from "zod/v4/mini";
+import { ConsistencyError } from "./errors";
+import type { ConfigValue } from "./helper";
+import type { ProxySettings } from "./proxy";
+
+export const zodConsistencyRule = z.enum([
+    "proxyTimezone",
+    "webrtcAddress",
+    "webrtcIPv6",
+    "localeCountry",
+    "timezoneLocation",
+]);
+export type ConsistencyRule = z.infer<typeof zodConsistencyRule>;
+
+/**
+ * How to report each rule, every rule defaults to `"warn"`.
+ * For example: `{ proxyTimezone: "error", localeCountry: "ignore" }`
+ */
+export const zodConsistencyOptions = z.partialRecord(zodConsistencyRule, z.enum(["warn", "error", "ignore"]));
+export type ConsistencyOptions = z.infer<typeof zodConsistencyOptions>;
+
+type ConsistencyIssue = {
+    rule: ConsistencyRule;
+    code: string;
+    message: string;
+};
+
+type ConsistencyInput = {
+    config: Record<string, ConfigValue>;
+    firefoxPrefs: Record<string, string | number | boolean>;
+    proxy: ProxySettings | undefined;
+    // What `geoip` found for the public IP, only known when it was looked up for this launch.
+    geoip?: {
+        countryCode: string;
+        timezone?: string;
+    };
+};
+
+const issueCodes: Record<ConsistencyRule, string> = {
+    proxyTimezone: "CAMOUFOX_PROXY_HOST_TIMEZONE",
+    webrtcAddress: "CAMOUFOX_WEBRTC_ADDRESS_LEAK",
+    webrtcIPv6: "CAMOUFOX_WEBRTC_IPV6_LEAK",
+    localeCountry: "CAMOUFOX_LOCALE_COUNTRY_MISMATCH",
+    timezoneLocation: "CAMOUFOX_TIMEZONE_LOCATION_MISMATCH",
+};
+
+function getHostTimezone() {
+    return new Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Global unicast IPv6 addresses are in 2000::/3, link-local and unique local addresses never leave the network.
+const globalUnicastIPv6 = /^[23][\da-f]{3}:/i;
+
+function hasHostPublicIPv6() {
+    return Object.values(os.networkInterfaces()).some((addresses) =>
+        addresses?.some(
+            ({ family, internal, address }) => family === "IPv6" && !internal && globalUnicastIPv6.test(address),
+        ),
+    );
+}
+
+// The country of the primary locale, from `locale:region`, otherwise from the first entry of `locale:all`.
+function getLocaleCountry(config: Record<string, ConfigValue>) {
+    const region = config["locale:region"];
+    if (typeof region === "string" && region.length > 0) {
+        return region;
+    }
+    const locales = config["locale:all"];
+    const primaryLocale = typeof locales === "string" ? locales.split(",")[0]?.trim().replaceAll("_", "-") : undefined;
+    try {
+        return primaryLocale ? new Intl.Locale(primaryLocale).region : undefined;
+    } catch {
+        // Raw config isn't validated as a locale.
+        return undefined;
+    }
+}
+
+// Every rule returns a message when the combination gives the browser away.
+const rules: Record<ConsistencyRule, (input: ConsistencyInput) => string | undefined> = {
+    proxyTimezone: ({ config, proxy }) => {
+        if (proxy && config.timezone === undefined) {
+            return `A proxy is used without a 'timezone', the browser reports the host's time zone '${getHostTimezone()}', Enable 'geoip' or set 'timezone'`;
+        }
+        return undefined;
+    },
+    webrtcAddress: ({ config, firefoxPrefs, proxy }) => {
+        const webrtcEnabled = firefoxPrefs["media.peerconnection.enabled"] !== false;
+        if (proxy && webrtcEnabled && config["webrtc:ipv4"] === undefined && config["webrtc:ipv6"] === undefined) {
+            return "A proxy is used without spoofed WebRTC addresses, WebRTC can reveal the host's public IP, Enable 'geoip' or set 'webrtc:ipv4'";
+        }
+        return undefined;
+    },
+    webrtcIPv6: ({ config, firefoxPrefs, proxy }) => {
+        const webrtcEnabled = firefoxPrefs["media.peerconnection.enabled"] !== false;
+        const ipv6Enabled = firefoxPrefs["network.dns.disableIPv6"] !== true;
+        if (
+            proxy &&
+            webrtcEnabled &&
+            ipv6Enabled &&
+            config["webrtc:ipv4"] !== undefined &&
+            config["webrtc:ipv6"] === undefined &&
+            hasHostPublicIPv6()
+        ) {
+            return "Only IPv4 goes through the proxy, WebRTC can reveal the host's public IPv6 address, Set 'webrtc:ipv6' or the 'network.dns.disableIPv6' Firefox pref";
+        }
+        return undefined;
+    },
+    localeCountry: ({ config, geoip }) => {
+        const region = geoip ? getLocaleCountry(config) : undefined;
+        if (geoip && region !== undefined && region.toUpperCase() !== geoip.countryCode.toUpperCase()) {
+            return `Locale region '${region}' doesn't fit the geolocation country '${geoip.countryCode}'`;
+        }
+        return undefined;
+    },
+    timezoneLocation: ({ config, geoip }) => {
+        if (geoip?.timezone && typeof config.timezone === "string" && config.timezone !== geoip.timezone) {
+            return `Time zone '${config.timezone}' doesn't fit the geolocation, which is in '${geoip.timezone}'`;
+        }
+        return undefined;
+    },
+};
+
+/**
+ * Look for option combinations that give the browser away, and report them as configured per rule.
+ * Warnings are emitted with their code, errors are thrown together once every rule has run.
+ */
+export function checkConsistency(
+    input: ConsistencyInput,
+    { consistency = {}, iKnowWhatImDoing = false }: { consistency?: ConsistencyOptions; iKnowWhatImDoing?: boolean },
+) {
+    if (iKnowWhatImDoing) {
+        return;
+    }
+
+    const errors = [] as ConsistencyIssue[];
+    for (const rule of zodConsistencyRule.options) {
+        const level = consistency[rule] ?? "warn";
+        const message = level === "ignore" ? undefined : rules[rule](input);
+        if (message === undefined) {
+            continue;
+        }
+
+        const issue = { rule, code: issueCodes[rule], message };
+        if (level === "error") {
+            errors.push(issue);
+        } else {
+            process.emitWarning(message, {
+                type: "CamoufoxConsistencyWarning",
+                code: issue.code,
+                detail: `Set 'consistency.${rule}' to "ignore" if this is intentional`,
+            });
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new ConsistencyError(
+            `Consistency error, ${errors.map(({ code, message }) => `[${code}] ${message}`).join("\n")}\nPass 'iKnowWhatImDoing: true' if this is intentional`,
+            { context: { issues: errors } },
+        );
+    }
+}
@@ -0,0 +1,98 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { getContextOptions, getPersistentContextOptions, removeUserDataDirectory } from "./contextOptions";
+import { OptionsValidationError } from "./errors";
+import { camoufoxLaunchOptions } from "./main";
+
+describe("getContextOptions", () => {
+    it("derives the context options from the launch identity", async () => {
+        const launchOptions = await camoufoxLaunchOptions({
+            dryRun: true,
+            locale: "en-GB",
+            timezone: "Europe/London",
+            geolocation: { latitude: 51.5072, longitude: -0.1276, accuracy: 100 },
+            window: { width: 1280, height: 800 },
+        });
+        const contextOptions = getContextOptions(launchOptions);
+
+        expect(contextOptions).toMatchObject({
+            locale: "en-GB",
+            timezoneId: "Europe/London",
+            geolocation: { latitude: 51.5072, longitude: -0.1276, accuracy: 100 },
+            permissions: ["geolocation"],
+        });
+        expect(contextOptions.viewport).toBeNull();
+        expect(contextOptions.screen?.width).toBeGreaterThanOrEqual(1280);
+    });
+
+    it("reads the config of a profile", () => {
+        const profile = { config: { "locale:all": "fr_FR, en_US", timezone: "Europe/Paris" } };
+        expect(getContextOptions(profile as unknown as Parameters<typeof getContextOptions>[0])).toEqual({
+            viewport: null,
+            locale: "fr-FR",
+            timezoneId: "Europe/Paris",
+        });
+    });
+});
+
+describe("getPersistentContextOptions", () => {
+    let home: string;
+
+    beforeAll(async () => {
+        home = await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-context-"));
+        vi.stubEnv("HOME", home);
+    });
+
+    afterAll(async () => {
+        vi.unstubAllEnvs();
+        await fs.rm(home, { recursive: true, force: true });
+    });
+
+    it("removes the temporary user data directory once disposed", async () => {
+        const launchOptions = await camoufoxLaunchOptions({ dryRun: true, timezone: "Asia/Tokyo" });
+        let userDataDir: string;
+        {
+            await using persistent = await getPersistentContextOptions(launchOptions, {
+                contextOptions: { timezoneId: "UTC", viewport: { width: 800, height: 600 } },
+            });
+            userDataDir = persistent.userDataDir;
+
+            expect(persistent.options.timezoneId).toBe("UTC");
+            expect(persistent.options.viewport).toEqual({ width: 800, height: 600 });
+            expect(persistent.options.env).toBe(launchOptions.env);
+            expect((await fs.stat(userDataDir)).isDirectory()).toBe(true);
+        }
+        await expect(fs.stat(userDataDir)).rejects.toThrow();
+    });
+
+    it("keeps a named user data directory until it is removed", async () => {
+        const launchOptions = await camoufoxLaunchOptions({ dryRun: true });
+        const persistent = await getPersistentContextOptions(launchOptions, { name: "account-1" });
+        await persistent[Symbol.asyncDispose]();
+
+        expect(persistent.userDataDir.startsWith(home)).toBe(true);
+        expect((await fs.stat(persistent.userDataDir)).isDirectory()).toBe(true);
+
+        await removeUserDataDirectory("account-1");
+        await expect(fs.stat(persistent.userDataDir)).rejects.toThrow();
+    });
+
+    it("rejects context options that aren't an object", async () => {
+        const launchOptions = await camoufoxLaunchOptions({ dryRun: true });
+        for (const contextOptions of [null, ["viewport"]]) {
+            await expect(
+                getPersistentContextOptions(launchOptions, { contextOptions: contextOptions as unknown as object }),
+            ).rejects.toThrow(OptionsValidationError);
+        }
+    });
+
+    it("rejects names that would leave the user data directory", async () => {
+        const launchOptions = await camoufoxLaunchOptions({ dryRun: true });
+        await expect(getPersistentContextOptions(launchOptions, { name: "../escape" })).rejects.toThrow(
+            OptionsValidationError,
+        );
+        await expect(removeUserDataDirectory("..")).rejects.toThrow(OptionsValidationError);
+    });
+});
@@ -0,0 +1,166 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { BrowserContextOptions, LaunchOptions as PlaywrightLaunchOptions } from "playwright-core";
+import { z } from "zod/v4/mini";
+import { deserializeConfig } from "./configEnv";
+import { OptionsValidationError } from "./errors";
+import { getUserDataDirectory } from "./launchPath";
+import type { Profile } from "./profile";
+
+// What `launchPersistentContext` takes, the launch and the context options in one object.
+export type PersistentContextOptions = PlaywrightLaunchOptions & BrowserContextOptions;
+
+// Can't contain path separators or start with a dot, so a name never escapes the user data directory.
+const zodUserDataName = z.string().check(z.regex(/^\w[\w.-]*$/, "Invalid user data name"));
+
+export const zodPersistentContextOptions = z.strictObject({
+    /**
+     * Name of a managed user data directory, kept between launches until `removeUserDataDirectory` is called.
+     * Defaults to a temporary directory that is removed when the returned options are disposed.
+     */
+    name: z.optional(zodUserDataName),
+    /**
+     * Extra context options, they take precedence over the ones derived from the identity.
+     */
+    contextOptions: z.optional(
+        z.custom<BrowserContextOptions>(
+            (value) => typeof value === "object" && value !== null && !Array.isArray(value),
+        ),
+    ),
+});
+export type PersistentContextOptionsInput = z.infer<typeof zodPersistentContextOptions>;
+
+function getConfig(identity: PlaywrightLaunchOptions | Profile) {
+    if ("config" in identity) {
+        return identity.config as Record<string, unknown>;
+    }
+    return deserializeConfig((identity.env ?? {}) as Record<string, string | undefined>);
+}
+
+function getNumber(config: Record<string, unknown>, key: string) {
+    const value = config[key];
+    return typeof value === "number" ? value : undefined;
+}
+
+function getString(config: Record<string, unknown>, key: string) {
+    const value = config[key];
+    return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+// The primary locale, either from its parts, or the first entry of `locale:all`.
+function getLocale(config: Record<string, unknown>) {
+    const language = getString(config, "locale:language");
+    if (language) {
+        const region = getString(config, "locale:region");
+        return region ? `${language}-${region}` : language;
+    }
+    return getString(config, "locale:all")?.split(",")[0]?.trim().replaceAll("_", "-");
+}
+
+function getGeolocation(config: Record<string, unknown>) {
+    const latitude = getNumber(config, "geolocation:latitude");
+    const longitude = getNumber(config, "geolocation:longitude");
+    if (latitude === undefined || longitude === undefined) {
+        return undefined;
+    }
+    return { latitude, longitude, accuracy: getNumber(config, "geolocation:accuracy") };
+}
+
+function getSize(config: Record<string, unknown>, widthKey: string, heightKey: string) {
+    const width = getNumber(config, widthKey);
+    const height = getNumber(config, heightKey);
+    return width === undefined || height === undefined ? undefined : { width, height };
+}
+
+/**
+ * Derive the Playwright context options from the identity Camoufox is launched with,
+ * so the locale, time zone, geolocation, screen and headers of the context can't disagree with it.
+ * The viewport is left to the window size Camoufox spoofs, unless the caller passes one.
+ * Takes the options returned by `camoufoxLaunchOptions`, or a profile.
+ */
+export function getContextOptions(identity: PlaywrightLaunchOptions | Profile): BrowserContextOptions {
+    const config = getConfig(identity);
+    // Playwright would otherwise emulate its own 1280x720 viewport inside the spoofed window.
+    const contextOptions: BrowserContextOptions = { viewport: null };
+
+    const locale = getLocale(config);
+    if (locale) {
+        contextOptions.locale = locale;
+    }
+    const timezoneId = getString(config, "timezone");
+    if (timezoneId) {
+        contextOptions.timezoneId = timezoneId;
+    }
+
+    // The spoofed position is only useful when pages are allowed to read it.
+    const geolocation = getGeolocation(config);
+    if (geolocation) {
+        contextOptions.geolocation = geolocation;
+        contextOptions.permissions = ["geolocation"];
+    }
+
+    const screen = getSize(config, "screen.width", "screen.height");
+    if (screen) {
+        contextOptions.screen = screen;
+    }
+    const deviceScaleFactor = getNumber(config, "window.devicePixelRatio");
+    if (deviceScaleFactor) {
+        contextOptions.deviceScaleFactor = deviceScaleFactor;
+    }
+
+    const acceptLanguage = getString(config, "headers.Accept-Language");
+    if (acceptLanguage) {
+        contextOptions.extraHTTPHeaders = { "Accept-Language": acceptLanguage };
+    }
+
+    return contextOptions;
+}
+
+/**
+ * Options for `firefox.launchPersistentContext`, together with the user data directory to pass along.
+ * Disposing them removes a temporary user data directory, and stops the virtual display of the launch options.
+ */
+export async function getPersistentContextOptions(
+    launchOptions: PlaywrightLaunchOptions & Partial<AsyncDisposable>,
+    options: PersistentContextOptionsInput = {},
+) {
+    const persistentOptions = zodPersistentContextOptions.safeParse(options);
+    if (!persistentOptions.success) {
+        throw new OptionsValidationError(z.prettifyError(persistentOptions.error), persistentOptions.error.issues);
+    }
+    const { name, contextOptions } = persistentOptions.data;
+
+    const userDataDir = name
+        ? path.join(getUserDataDirectory(), name)
+        : await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-user-data-"));
+    await fs.mkdir(userDataDir, { recursive: true });
+
+    const dispose = async () => {
+        await launchOptions[Symbol.asyncDispose]?.();
+        if (!name) {
+            await fs.rm(userDataDir, { recursive: true, force: true });
+        }
+    };
+
+    return {
+        userDataDir,
+        options: {
+            ...launchOptions,
+            ...getContextOptions(launchOptions),
+            ...contextOptions,
+        } as PersistentContextOptions,
+        [Symbol.asyncDispose]: dispose,
+    };
+}
+
+/**
+ * Remove a managed user data directory created by `getPersistentContextOptions`.
+ */
+export async function removeUserDataDirectory(name: string) {
+    const validatedName = zodUserDataName.safeParse(name);
+    if (!validatedName.success) {
+        throw new OptionsValidationError(z.prettifyError(validatedName.error), validatedName.error.issues);
+    }
+    await fs.rm(path.join(getUserDataDirectory(), validatedName.data), { recursive: true, force: true });
+}
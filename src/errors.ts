@@ -0,0 +1,220 @@
+import type { z } from "zod/v4/mini";
+
+type CamoufoxErrorOptions = {
+    /**
+     * Values the failure is about, like the path, IP address or source involved.
+     */
+    context?: Record<string, unknown>;
+    /**
+     * Whether the same call may succeed when tried again, like after a network failure.
+     */
+    retryable?: boolean;
+    cause?: unknown;
+};
+
+/**
+ * Base class of every error thrown by this package.
+ * `code` is stable across releases, unlike the message.
+ */
+export class CamoufoxError extends Error {
+    override name = "CamoufoxError";
+    readonly code: string;
+    readonly context: Record<string, unknown>;
+    readonly retryable: boolean;
+
+    constructor(message: string, code: string, { context = {}, retryable = false, cause }: CamoufoxErrorOptions = {}) {
+        super(message, cause === undefined ? undefined : { cause });
+        this.code = code;
+        this.context = context;
+        this.retryable = retryable;
+    }
+}
+
+/**
+ * The launch options are invalid, `issues` holds the Zod issues when they came from schema validation.
+ */
+export class OptionsValidationError extends CamoufoxError {
+    override name = "OptionsValidationError";
+    readonly issues: z.core.$ZodIssue[];
+
+    constructor(message: string, issues: z.core.$ZodIssue[] = [], options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_INVALID_OPTIONS", options);
+        this.issues = issues;
+    }
+}
+
+/**
+ * A Camoufox config property or the generated `CAMOU_CONFIG_n` variables are invalid.
+ */
+export class ConfigError extends CamoufoxError {
+    override name = "ConfigError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_INVALID_CONFIG", options);
+    }
+}
+
+/**
+ * The `env` option conflicts with the generated environment variables.
+ */
+export class EnvironmentError extends CamoufoxError {
+    override name = "EnvironmentError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_ENV_CONFLICT", options);
+    }
+}
+
+/**
+ * The current operating system isn't supported by Camoufox.
+ */
+export class UnsupportedPlatformError extends CamoufoxError {
+    override name = "UnsupportedPlatformError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_UNSUPPORTED_PLATFORM", options);
+    }
+}
+
+/**
+ * No Camoufox executable was found at the given path, for the pinned version, or at all.
+ */
+export class CamoufoxNotInstalledError extends CamoufoxError {
+    override name = "CamoufoxNotInstalledError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_NOT_INSTALLED", options);
+    }
+}
+
+/**
+ * A file could not be downloaded, retryable unless the server refused it for good.
+ */
+export class DownloadError extends CamoufoxError {
+    override name = "DownloadError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_DOWNLOAD_FAILED", options);
+    }
+}
+
+/**
+ * A zip archive is corrupt or uses features that aren't supported.
+ */
+export class ArchiveError extends CamoufoxError {
+    override name = "ArchiveError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_INVALID_ARCHIVE", options);
+    }
+}
+
+/**
+ * A Camoufox release could not be installed or removed.
+ */
+export class InstallError extends CamoufoxError {
+    override name = "InstallError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_INSTALL_FAILED", options);
+    }
+}
+
+/**
+ * An add-on directory is missing or has no `manifest.json`.
+ */
+export class AddonError extends CamoufoxError {
+    override name = "AddonError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_INVALID_ADDON", options);
+    }
+}
+
+/**
+ * The proxy is invalid, or its URL credentials contradict the explicit ones.
+ */
+export class ProxyConfigError extends CamoufoxError {
+    override name = "ProxyConfigError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_INVALID_PROXY", options);
+    }
+}
+
+/**
+ * None of the public IP services answered, usually a network or proxy problem worth retrying.
+ */
+export class PublicIPResolutionError extends CamoufoxError {
+    override name = "PublicIPResolutionError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_PUBLIC_IP_FAILED", { retryable: true, ...options });
+    }
+}
+
+/**
+ * A GeoIP database is missing, corrupt, or could not be installed.
+ */
+export class GeoIPDatabaseError extends CamoufoxError {
+    override name = "GeoIPDatabaseError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_GEOIP_DATABASE", options);
+    }
+}
+
+/**
+ * The GeoIP databases have no usable location for the IP address.
+ */
+export class GeoIPLookupError extends CamoufoxError {
+    override name = "GeoIPLookupError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_GEOIP_LOOKUP", options);
+    }
+}
+
+/**
+ * No fingerprint fits the requested OS, screen, window or WebGL constraints.
+ */
+export class FingerprintError extends CamoufoxError {
+    override name = "FingerprintError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_FINGERPRINT", options);
+    }
+}
+
+/**
+ * A profile could not be read, migrated or written.
+ */
+export class ProfileError extends CamoufoxError {
+    override name = "ProfileError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_PROFILE", options);
+    }
+}
+
+/**
+ * Xvfb is missing, or the virtual display failed to start.
+ */
+export class VirtualDisplayError extends CamoufoxError {
+    override name = "VirtualDisplayError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_VIRTUAL_DISPLAY", options);
+    }
+}
+
+/**
+ * Consistency rules set to `"error"` found combinations that give the browser away.
+ */
+export class ConsistencyError extends CamoufoxError {
+    override name = "ConsistencyError";
+
+    constructor(message: string, options?: CamoufoxErrorOptions) {
+        super(message, "CAMOUFOX_INCONSISTENT_OPTIONS", options);
+    }
+}
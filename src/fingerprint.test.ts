@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { generateFingerprint } from "./fingerprint";
+import { fingerprintData, targetOperatingSystems } from "./fingerprintData";
+
+describe("generateFingerprint", () => {
+    it("keeps the navigator values of one OS together", () => {
+        for (const os of targetOperatingSystems) {
+            const { os: targetOS, config } = generateFingerprint({ os });
+
+            expect(targetOS).toBe(os);
+            expect(config["navigator.platform"]).toBe(fingerprintData[os].platform);
+            expect(config["navigator.oscpu"]).toBe(fingerprintData[os].oscpu);
+            expect(config["headers.User-Agent"]).toBe(config["navigator.userAgent"]);
+        }
+    });
+
+    it("picks the OS from the given list", () => {
+        for (let run = 0; run < 20; run++) {
+            expect(["macos", "linux"]).toContain(generateFingerprint({ os: ["macos", "linux"] }).os);
+        }
+    });
+
+    it("picks a screen within the constraints", () => {
+        const screen = { minWidth: 1900, maxWidth: 2000, maxHeight: 1100 };
+        for (let run = 0; run < 20; run++) {
+            const { config } = generateFingerprint({ os: "windows", screen });
+            expect(config["screen.width"]).toBeGreaterThanOrEqual(1900);
+            expect(config["screen.width"]).toBeLessThanOrEqual(2000);
+            expect(config["screen.height"]).toBeLessThanOrEqual(1100);
+        }
+    });
+
+    it("fits the window inside the available screen area", () => {
+        for (let run = 0; run < 20; run++) {
+            const { config } = generateFingerprint({ os: "linux" });
+            expect(config["window.outerWidth"]).toBeLessThanOrEqual(config["screen.availWidth"] as number);
+            expect(config["window.outerHeight"]).toBeLessThanOrEqual(config["screen.availHeight"] as number);
+            expect(config["window.innerHeight"]).toBeLessThan(config["window.outerHeight"] as number);
+        }
+    });
+
+    it("uses and centers a fixed window size", () => {
+        const { config } = generateFingerprint({ os: "macos", window: { width: 800, height: 600 } });
+        expect(config["window.outerWidth"]).toBe(800);
+        expect(config["window.outerHeight"]).toBe(600);
+        expect(config["window.screenX"]).toBe(Math.floor(((config["screen.availWidth"] as number) - 800) / 2));
+    });
+
+    it("only picks screens whose free area fits a fixed window", () => {
+        for (let run = 0; run < 50; run++) {
+            const { config } = generateFingerprint({ os: "windows", window: { width: 1900, height: 1060 } });
+            expect(config["screen.availHeight"]).toBeGreaterThanOrEqual(1060);
+            expect(config["window.outerHeight"]).toBe(1060);
+        }
+    });
+
+    it("throws when no screen matches the constraints", () => {
+        expect(() => generateFingerprint({ os: "windows", screen: { minWidth: 100_000 } })).toThrow(
+            /No windows screen size matches/,
+        );
+    });
+});
@@ -0,0 +1,191 @@
+import { z } from "zod/v4/mini";
+import { FingerprintError } from "./errors";
+import {
+    fingerprintData,
+    firefoxVersion,
+    type ScreenSize,
+    sharedNavigatorData,
+    type TargetOS,
+    targetOperatingSystems,
+} from "./fingerprintData";
+import { pickWeighted, type RandomSource } from "./helper";
+
+export const zodTargetOS = z.enum(targetOperatingSystems, {
+    error: "Unsupported target OS, Only 'windows', 'macos' and 'linux' are supported",
+});
+
+export const zodScreenConstraints = z.strictObject({
+    /**
+     * Minimum screen width in pixels.
+     */
+    minWidth: z.optional(z.int().check(z.positive())),
+    /**
+     * Maximum screen width in pixels.
+     */
+    maxWidth: z.optional(z.int().check(z.positive())),
+    /**
+     * Minimum screen height in pixels.
+     */
+    minHeight: z.optional(z.int().check(z.positive())),
+    /**
+     * Maximum screen height in pixels.
+     */
+    maxHeight: z.optional(z.int().check(z.positive())),
+});
+
+export const zodWindowSize = z.strictObject({
+    /**
+     * Outer width of the browser window in pixels.
+     */
+    width: z.int().check(z.positive()),
+    /**
+     * Outer height of the browser window in pixels.
+     */
+    height: z.int().check(z.positive()),
+});
+
+type FingerprintOptions = {
+    os?: TargetOS | TargetOS[] | undefined;
+    screen?: z.infer<typeof zodScreenConstraints> | undefined;
+    window?: z.infer<typeof zodWindowSize> | undefined;
+    random?: RandomSource;
+};
+
+function pickTargetOS(os: FingerprintOptions["os"], random: RandomSource) {
+    if (typeof os === "string") {
+        return os;
+    }
+    const candidates = os && os.length > 0 ? os : targetOperatingSystems;
+    return pickWeighted(
+        candidates.map((candidate) => [candidate, fingerprintData[candidate].share] as const),
+        random,
+    );
+}
+
+type ScreenInsets = { readonly top: number; readonly bottom: number };
+
+// A fixed size window has to fit in the screen area the taskbar, dock or panels leave free.
+function fitsWindow(screen: ScreenSize, insets: ScreenInsets, windowSize: FingerprintOptions["window"]) {
+    return (
+        windowSize === undefined ||
+        (screen.width >= windowSize.width && screen.height - insets.top - insets.bottom >= windowSize.height)
+    );
+}
+
+function pickScreen(
+    targetOS: TargetOS,
+    constraints: FingerprintOptions["screen"],
+    windowSize: FingerprintOptions["window"],
+    random: RandomSource,
+) {
+    const { screens: allScreens, screenInsets } = fingerprintData[targetOS];
+    const screens = allScreens.filter(([screen]) => {
+        if (!screenInsets.some(([insets]) => fitsWindow(screen, insets, windowSize))) {
+            return false;
+        }
+        if (constraints === undefined) {
+            return true;
+        }
+        return (
+            screen.width >= (constraints.minWidth ?? 0) &&
+            screen.width <= (constraints.maxWidth ?? Number.POSITIVE_INFINITY) &&
+            screen.height >= (constraints.minHeight ?? 0) &&
+            screen.height <= (constraints.maxHeight ?? Number.POSITIVE_INFINITY)
+        );
+    });
+
+    if (screens.length === 0) {
+        throw new FingerprintError(
+            `Fingerprint error, No ${targetOS} screen size matches the given 'screen' and 'window' constraints`,
+        );
+    }
+    return pickWeighted(screens, random);
+}
+
+function getWindowGeometry(
+    targetOS: TargetOS,
+    screen: ScreenSize,
+    windowSize: FingerprintOptions["window"],
+    random: RandomSource,
+) {
+    // The screen was picked so that at least one of these leaves enough room for the window.
+    const insets = pickWeighted(
+        fingerprintData[targetOS].screenInsets.filter(([screenInsets]) => fitsWindow(screen, screenInsets, windowSize)),
+        random,
+    );
+    const chrome = fingerprintData[targetOS].browserChrome;
+
+    const availWidth = screen.width;
+    const availHeight = screen.height - insets.top - insets.bottom;
+
+    // Without a fixed window size, the browser window is maximized.
+    const outerWidth = windowSize ? windowSize.width : availWidth;
+    const outerHeight = windowSize ? windowSize.height : availHeight;
+
+    return {
+        availWidth,
+        availHeight,
+        availTop: insets.top,
+        outerWidth,
+        outerHeight,
+        innerWidth: Math.max(outerWidth - chrome.width, 1),
+        innerHeight: Math.max(outerHeight - chrome.height, 1),
+        // Center a fixed size window inside the available screen area.
+        screenX: Math.floor((availWidth - outerWidth) / 2),
+        screenY: insets.top + Math.floor((availHeight - outerHeight) / 2),
+    };
+}
+
+/**
+ * Generate a consistent set of `navigator.*`, `screen.*`, `window.*` and header values for one target OS.
+ * All values are sampled from the bundled dataset, no network access is required.
+ */
+export function generateFingerprint({ os, screen, window, random = Math.random }: FingerprintOptions) {
+    const targetOS = pickTargetOS(os, random);
+    const osData = fingerprintData[targetOS];
+
+    const screenSize = pickScreen(targetOS, screen, window, random);
+    const geometry = getWindowGeometry(targetOS, screenSize, window, random);
+
+    const userAgent = `Mozilla/5.0 (${pickWeighted(osData.userAgentPlatforms, random)}; rv:${firefoxVersion}) Gecko/20100101 Firefox/${firefoxVersion}`;
+
+    const config: Record<string, string | number | boolean> = {
+        "navigator.userAgent": userAgent,
+        "navigator.appCodeName": sharedNavigatorData.appCodeName,
+        "navigator.appName": sharedNavigatorData.appName,
+        "navigator.appVersion": osData.appVersion,
+        "navigator.oscpu": osData.oscpu,
+        "navigator.platform": osData.platform,
+        "navigator.product": sharedNavigatorData.product,
+        "navigator.productSub": sharedNavigatorData.productSub,
+        "navigator.buildID": sharedNavigatorData.buildID,
+        "navigator.doNotTrack": sharedNavigatorData.doNotTrack,
+        "navigator.globalPrivacyControl": sharedNavigatorData.globalPrivacyControl,
+        "navigator.cookieEnabled": sharedNavigatorData.cookieEnabled,
+        "navigator.hardwareConcurrency": pickWeighted(osData.hardwareConcurrency, random),
+        "navigator.maxTouchPoints": pickWeighted(osData.maxTouchPoints, random),
+        pdfViewerEnabled: sharedNavigatorData.pdfViewerEnabled,
+
+        "screen.width": screenSize.width,
+        "screen.height": screenSize.height,
+        "screen.availWidth": geometry.availWidth,
+        "screen.availHeight": geometry.availHeight,
+        "screen.availTop": geometry.availTop,
+        "screen.availLeft": 0,
+        "screen.colorDepth": sharedNavigatorData.colorDepth,
+        "screen.pixelDepth": sharedNavigatorData.colorDepth,
+
+        "window.outerWidth": geometry.outerWidth,
+        "window.outerHeight": geometry.outerHeight,
+        "window.innerWidth": geometry.innerWidth,
+        "window.innerHeight": geometry.innerHeight,
+        "window.screenX": geometry.screenX,
+        "window.screenY": geometry.screenY,
+        "window.devicePixelRatio": pickWeighted(osData.devicePixelRatio, random),
+
+        "headers.User-Agent": userAgent,
+        "headers.Accept-Encoding": sharedNavigatorData.acceptEncoding,
+    };
+
+    return { os: targetOS, config };
+}
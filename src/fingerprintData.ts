@@ -0,0 +1,172 @@
+// Bundled statistical dataset the fingerprint generator samples from.
+// Every distribution is a list of `[value, weight]` pairs, weights don't have to add up to 1.
+// Screen sizes are in CSS pixels, as reported by `screen.width` and `screen.height`.
+
+export const targetOperatingSystems = ["windows", "macos", "linux"] as const;
+export type TargetOS = (typeof targetOperatingSystems)[number];
+
+export type Weighted<T> = readonly (readonly [T, number])[];
+
+export type ScreenSize = {
+    readonly width: number;
+    readonly height: number;
+};
+
+type OSFingerprintData = {
+    /** Share of Firefox users running this OS, used when no `os` is given. */
+    readonly share: number;
+    readonly platform: string;
+    readonly oscpu: string;
+    readonly appVersion: string;
+    readonly userAgentPlatforms: Weighted<string>;
+    readonly hardwareConcurrency: Weighted<number>;
+    readonly maxTouchPoints: Weighted<number>;
+    readonly devicePixelRatio: Weighted<number>;
+    readonly screens: Weighted<ScreenSize>;
+    /** Space taken by the taskbar, dock or panels, at the top and bottom of the screen. */
+    readonly screenInsets: Weighted<{ readonly top: number; readonly bottom: number }>;
+    /** Space taken by the browser's tab strip, toolbars and window borders. */
+    readonly browserChrome: { readonly width: number; readonly height: number };
+};
+
+/** Firefox version Camoufox is currently based on. */
+export const firefoxVersion = "135.0";
+
+export const sharedNavigatorData = {
+    appCodeName: "Mozilla",
+    appName: "Netscape",
+    product: "Gecko",
+    productSub: "20100101",
+    // Firefox reports the same fixed build ID on every platform.
+    buildID: "20181001000000",
+    doNotTrack: "unspecified",
+    globalPrivacyControl: false,
+    cookieEnabled: true,
+    pdfViewerEnabled: true,
+    colorDepth: 24,
+    acceptEncoding: "gzip, deflate, br, zstd",
+} as const;
+
+export const fingerprintData: Record<TargetOS, OSFingerprintData> = {
+    windows: {
+        share: 0.75,
+        platform: "Win32",
+        oscpu: "Windows NT 10.0; Win64; x64",
+        appVersion: "5.0 (Windows)",
+        userAgentPlatforms: [["Windows NT 10.0; Win64; x64", 1]],
+        hardwareConcurrency: [
+            [2, 0.03],
+            [4, 0.21],
+            [6, 0.09],
+            [8, 0.3],
+            [12, 0.15],
+            [16, 0.17],
+            [20, 0.02],
+            [24, 0.03],
+        ],
+        maxTouchPoints: [
+            [0, 0.88],
+            [10, 0.12],
+        ],
+        devicePixelRatio: [
+            [1, 0.68],
+            [1.25, 0.16],
+            [1.5, 0.13],
+            [2, 0.03],
+        ],
+        screens: [
+            [{ width: 1920, height: 1080 }, 0.36],
+            [{ width: 1366, height: 768 }, 0.09],
+            [{ width: 1536, height: 864 }, 0.1],
+            [{ width: 2560, height: 1440 }, 0.12],
+            [{ width: 1440, height: 900 }, 0.04],
+            [{ width: 1600, height: 900 }, 0.05],
+            [{ width: 1280, height: 720 }, 0.03],
+            [{ width: 1280, height: 1024 }, 0.03],
+            [{ width: 1680, height: 1050 }, 0.03],
+            [{ width: 2560, height: 1080 }, 0.02],
+            [{ width: 3440, height: 1440 }, 0.03],
+            [{ width: 3840, height: 2160 }, 0.05],
+        ],
+        screenInsets: [
+            [{ top: 0, bottom: 40 }, 0.7],
+            [{ top: 0, bottom: 48 }, 0.3],
+        ],
+        browserChrome: { width: 16, height: 87 },
+    },
+    macos: {
+        share: 0.17,
+        platform: "MacIntel",
+        oscpu: "Intel Mac OS X 10.15",
+        appVersion: "5.0 (Macintosh)",
+        // Firefox freezes the reported macOS version at 10.15, even on Apple Silicon.
+        userAgentPlatforms: [["Macintosh; Intel Mac OS X 10.15", 1]],
+        hardwareConcurrency: [
+            [4, 0.05],
+            [8, 0.48],
+            [10, 0.2],
+            [12, 0.15],
+            [16, 0.12],
+        ],
+        maxTouchPoints: [[0, 1]],
+        devicePixelRatio: [
+            [1, 0.15],
+            [2, 0.85],
+        ],
+        screens: [
+            [{ width: 1440, height: 900 }, 0.24],
+            [{ width: 1512, height: 982 }, 0.2],
+            [{ width: 1728, height: 1117 }, 0.14],
+            [{ width: 1470, height: 956 }, 0.06],
+            [{ width: 1680, height: 1050 }, 0.1],
+            [{ width: 1280, height: 800 }, 0.05],
+            [{ width: 1920, height: 1080 }, 0.11],
+            [{ width: 2560, height: 1440 }, 0.1],
+        ],
+        screenInsets: [
+            [{ top: 25, bottom: 0 }, 0.6],
+            [{ top: 25, bottom: 75 }, 0.4],
+        ],
+        browserChrome: { width: 0, height: 79 },
+    },
+    linux: {
+        share: 0.08,
+        platform: "Linux x86_64",
+        oscpu: "Linux x86_64",
+        appVersion: "5.0 (X11)",
+        userAgentPlatforms: [
+            ["X11; Linux x86_64", 0.8],
+            ["X11; Ubuntu; Linux x86_64", 0.2],
+        ],
+        hardwareConcurrency: [
+            [2, 0.04],
+            [4, 0.2],
+            [8, 0.32],
+            [12, 0.14],
+            [16, 0.18],
+            [24, 0.06],
+            [32, 0.06],
+        ],
+        maxTouchPoints: [[0, 1]],
+        devicePixelRatio: [
+            [1, 0.85],
+            [2, 0.15],
+        ],
+        screens: [
+            [{ width: 1920, height: 1080 }, 0.5],
+            [{ width: 1366, height: 768 }, 0.1],
+            [{ width: 1600, height: 900 }, 0.05],
+            [{ width: 1680, height: 1050 }, 0.05],
+            [{ width: 1280, height: 1024 }, 0.05],
+            [{ width: 2560, height: 1080 }, 0.05],
+            [{ width: 2560, height: 1440 }, 0.15],
+            [{ width: 3840, height: 2160 }, 0.05],
+        ],
+        screenInsets: [
+            [{ top: 0, bottom: 0 }, 0.3],
+            [{ top: 32, bottom: 0 }, 0.5],
+            [{ top: 0, bottom: 44 }, 0.2],
+        ],
+        browserChrome: { width: 0, height: 85 },
+    },
+};
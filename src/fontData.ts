@@ -0,0 +1,248 @@
+// Bundled catalogs of the font families and speech synthesis voices a stock install of each OS reports.
+// Only fonts shipped with the OS itself are listed, fonts installed by other software would be rare and identifying.
+
+import type { TargetOS } from "./fingerprintData";
+
+export const fontCatalogs: Readonly<Record<TargetOS, readonly string[]>> = {
+    windows: [
+        "Arial",
+        "Arial Black",
+        "Bahnschrift",
+        "Calibri",
+        "Cambria",
+        "Cambria Math",
+        "Candara",
+        "Comic Sans MS",
+        "Consolas",
+        "Constantia",
+        "Corbel",
+        "Courier New",
+        "Ebrima",
+        "Franklin Gothic Medium",
+        "Gabriola",
+        "Gadugi",
+        "Georgia",
+        "HoloLens MDL2 Assets",
+        "Impact",
+        "Ink Free",
+        "Javanese Text",
+        "Leelawadee UI",
+        "Lucida Console",
+        "Lucida Sans Unicode",
+        "Malgun Gothic",
+        "Marlett",
+        "Microsoft Himalaya",
+        "Microsoft JhengHei",
+        "Microsoft New Tai Lue",
+        "Microsoft PhagsPa",
+        "Microsoft Sans Serif",
+        "Microsoft Tai Le",
+        "Microsoft YaHei",
+        "Microsoft Yi Baiti",
+        "MingLiU-ExtB",
+        "Mongolian Baiti",
+        "MS Gothic",
+        "MV Boli",
+        "Myanmar Text",
+        "Nirmala UI",
+        "Palatino Linotype",
+        "Segoe MDL2 Assets",
+        "Segoe Print",
+        "Segoe Script",
+        "Segoe UI",
+        "Segoe UI Emoji",
+        "Segoe UI Historic",
+        "Segoe UI Symbol",
+        "SimSun",
+        "Sitka Text",
+        "Sylfaen",
+        "Symbol",
+        "Tahoma",
+        "Times New Roman",
+        "Trebuchet MS",
+        "Verdana",
+        "Webdings",
+        "Wingdings",
+        "Yu Gothic",
+    ],
+    macos: [
+        "American Typewriter",
+        "Andale Mono",
+        "Apple Braille",
+        "Apple Chancery",
+        "Apple Color Emoji",
+        "Apple SD Gothic Neo",
+        "Arial",
+        "Arial Black",
+        "Arial Narrow",
+        "Arial Rounded MT Bold",
+        "Arial Unicode MS",
+        "Avenir",
+        "Avenir Next",
+        "Baskerville",
+        "Big Caslon",
+        "Bradley Hand",
+        "Brush Script MT",
+        "Chalkboard",
+        "Chalkboard SE",
+        "Chalkduster",
+        "Charter",
+        "Cochin",
+        "Comic Sans MS",
+        "Copperplate",
+        "Courier",
+        "Courier New",
+        "Didot",
+        "Futura",
+        "Geneva",
+        "Georgia",
+        "Gill Sans",
+        "Helvetica",
+        "Helvetica Neue",
+        "Herculanum",
+        "Hiragino Sans",
+        "Hoefler Text",
+        "Impact",
+        "Lucida Grande",
+        "Luminari",
+        "Marker Felt",
+        "Menlo",
+        "Monaco",
+        "Noteworthy",
+        "Optima",
+        "Palatino",
+        "Papyrus",
+        "PingFang SC",
+        "Rockwell",
+        "Savoye LET",
+        "SignPainter",
+        "Skia",
+        "Snell Roundhand",
+        "STIX Two Text",
+        "Tahoma",
+        "Times",
+        "Times New Roman",
+        "Trattatello",
+        "Trebuchet MS",
+        "Verdana",
+        "Zapfino",
+    ],
+    linux: [
+        "C059",
+        "Cantarell",
+        "DejaVu Sans",
+        "DejaVu Sans Mono",
+        "DejaVu Serif",
+        "Droid Sans Fallback",
+        "FreeMono",
+        "FreeSans",
+        "FreeSerif",
+        "Liberation Mono",
+        "Liberation Sans",
+        "Liberation Sans Narrow",
+        "Liberation Serif",
+        "Nimbus Mono PS",
+        "Nimbus Roman",
+        "Nimbus Sans",
+        "Noto Color Emoji",
+        "Noto Mono",
+        "Noto Sans",
+        "Noto Sans CJK JP",
+        "Noto Sans Mono",
+        "Noto Serif",
+        "P052",
+        "Standard Symbols PS",
+        "Ubuntu",
+        "Ubuntu Condensed",
+        "Ubuntu Mono",
+        "URW Bookman",
+        "URW Gothic",
+        "Z003",
+    ],
+};
+
+export type Voice = {
+    readonly name: string;
+    readonly lang: string;
+    readonly voiceUri: string;
+};
+
+// Windows voices come from SAPI, and only the voices of the installed display languages are present.
+const windowsVoice = (name: string, language: string, lang: string): Voice => ({
+    name: `Microsoft ${name} Desktop - ${language}`,
+    lang,
+    voiceUri: `urn:moz-tts:sapi:Microsoft ${name} Desktop - ${language}?${lang}`,
+});
+
+// macOS ships a voice for every language.
+const macosVoice = (name: string, lang: string): Voice => ({
+    name,
+    lang,
+    voiceUri: `urn:moz-tts:osx:com.apple.speech.synthesis.voice.${name.toLowerCase().replaceAll("-", "")}`,
+});
+
+// Linux voices come from speech-dispatcher with eSpeak NG.
+const linuxVoice = (name: string, lang: string): Voice => ({
+    name,
+    lang,
+    voiceUri: `urn:moz-tts:speechd:${encodeURIComponent(name)}?${lang}`,
+});
+
+export const voiceCatalogs: Readonly<Record<TargetOS, readonly Voice[]>> = {
+    windows: [
+        windowsVoice("David", "English (United States)", "en-US"),
+        windowsVoice("Zira", "English (United States)", "en-US"),
+        windowsVoice("Hazel", "English (Great Britain)", "en-GB"),
+        windowsVoice("Hedda", "German (Germany)", "de-DE"),
+        windowsVoice("Hortense", "French (France)", "fr-FR"),
+        windowsVoice("Helena", "Spanish (Spain)", "es-ES"),
+        windowsVoice("Sabina", "Spanish (Mexico)", "es-MX"),
+        windowsVoice("Elsa", "Italian (Italy)", "it-IT"),
+        windowsVoice("Maria", "Portuguese (Brazil)", "pt-BR"),
+        windowsVoice("Paulina", "Polish (Poland)", "pl-PL"),
+        windowsVoice("Irina", "Russian (Russia)", "ru-RU"),
+        windowsVoice("Haruka", "Japanese (Japan)", "ja-JP"),
+        windowsVoice("Heami", "Korean (Korea)", "ko-KR"),
+        windowsVoice("Huihui", "Chinese (Simplified, PRC)", "zh-CN"),
+    ],
+    macos: [
+        macosVoice("Samantha", "en-US"),
+        macosVoice("Alex", "en-US"),
+        macosVoice("Daniel", "en-GB"),
+        macosVoice("Karen", "en-AU"),
+        macosVoice("Moira", "en-IE"),
+        macosVoice("Rishi", "en-IN"),
+        macosVoice("Tessa", "en-ZA"),
+        macosVoice("Anna", "de-DE"),
+        macosVoice("Thomas", "fr-FR"),
+        macosVoice("Amelie", "fr-CA"),
+        macosVoice("Monica", "es-ES"),
+        macosVoice("Paulina", "es-MX"),
+        macosVoice("Alice", "it-IT"),
+        macosVoice("Luciana", "pt-BR"),
+        macosVoice("Joana", "pt-PT"),
+        macosVoice("Xander", "nl-NL"),
+        macosVoice("Zosia", "pl-PL"),
+        macosVoice("Milena", "ru-RU"),
+        macosVoice("Yelda", "tr-TR"),
+        macosVoice("Alva", "sv-SE"),
+        macosVoice("Kyoko", "ja-JP"),
+        macosVoice("Yuna", "ko-KR"),
+        macosVoice("Ting-Ting", "zh-CN"),
+        macosVoice("Mei-Jia", "zh-TW"),
+    ],
+    linux: [
+        linuxVoice("English (America)", "en-US"),
+        linuxVoice("English (Great Britain)", "en-GB"),
+        linuxVoice("German", "de-DE"),
+        linuxVoice("French (France)", "fr-FR"),
+        linuxVoice("Spanish (Spain)", "es-ES"),
+        linuxVoice("Italian", "it-IT"),
+        linuxVoice("Portuguese (Brazil)", "pt-BR"),
+        linuxVoice("Dutch", "nl-NL"),
+        linuxVoice("Polish", "pl-PL"),
+        linuxVoice("Russian", "ru-RU"),
+        linuxVoice("Japanese", "ja-JP"),
+        linuxVoice("Chinese (Mandarin)", "zh-CN"),
+    ],
+};
@@ -0,0 +1,140 @@
+import { Buffer } from "node:buffer";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import zlib from "node:zlib";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { readFontFamilies } from "./fontFile";
+
+type NameRecord = { platform: number; language: number; nameId: number; value: string };
+
+const windowsRecord = (nameId: number, value: string): NameRecord => ({ platform: 3, language: 0x409, nameId, value });
+const macintoshRecord = (nameId: number, value: string): NameRecord => ({ platform: 1, language: 0, nameId, value });
+
+function createNameTable(records: NameRecord[]) {
+    const strings = records.map(({ platform, value }) =>
+        platform === 1 ? Buffer.from(value, "latin1") : Buffer.from(value, "utf16le").swap16(),
+    );
+    const header = Buffer.alloc(6 + records.length * 12);
+    header.writeUInt16BE(records.length, 2);
+    header.writeUInt16BE(header.length, 4);
+
+    let offset = 0;
+    for (const [index, { platform, language, nameId }] of records.entries()) {
+        const record = 6 + index * 12;
+        const length = strings[index]?.length ?? 0;
+        header.writeUInt16BE(platform, record);
+        header.writeUInt16BE(platform === 3 ? 1 : 0, record + 2);
+        header.writeUInt16BE(language, record + 4);
+        header.writeUInt16BE(nameId, record + 6);
+        header.writeUInt16BE(length, record + 8);
+        header.writeUInt16BE(offset, record + 10);
+        offset += length;
+    }
+    return Buffer.concat([header, ...strings]);
+}
+
+// A TrueType font holding only a name table, placed at `fontOffset` within its file.
+function createTrueType(nameTable: Buffer, fontOffset = 0) {
+    const header = Buffer.alloc(12 + 16);
+    header.writeUInt32BE(0x00_01_00_00, 0);
+    header.writeUInt16BE(1, 4);
+    header.write("name", 12, "latin1");
+    header.writeUInt32BE(fontOffset + header.length, 12 + 8);
+    header.writeUInt32BE(nameTable.length, 12 + 12);
+    return Buffer.concat([header, nameTable]);
+}
+
+function createCollection(nameTables: Buffer[]) {
+    const header = Buffer.alloc(12 + nameTables.length * 4);
+    header.write("ttcf", 0, "latin1");
+    header.writeUInt32BE(0x00_01_00_00, 4);
+    header.writeUInt32BE(nameTables.length, 8);
+
+    const fonts = [] as Buffer[];
+    let offset = header.length;
+    for (const [index, nameTable] of nameTables.entries()) {
+        header.writeUInt32BE(offset, 12 + index * 4);
+        const font = createTrueType(nameTable, offset);
+        fonts.push(font);
+        offset += font.length;
+    }
+    return Buffer.concat([header, ...fonts]);
+}
+
+// Tables are only stored compressed when that makes them smaller.
+function createWoff(nameTable: Buffer) {
+    const deflated = zlib.deflateSync(nameTable);
+    const compressed = deflated.length < nameTable.length ? deflated : nameTable;
+    const header = Buffer.alloc(44 + 20);
+    header.write("wOFF", 0, "latin1");
+    header.writeUInt32BE(0x00_01_00_00, 4);
+    header.writeUInt16BE(1, 12);
+    header.write("name", 44, "latin1");
+    header.writeUInt32BE(header.length, 44 + 4);
+    header.writeUInt32BE(compressed.length, 44 + 8);
+    header.writeUInt32BE(nameTable.length, 44 + 12);
+    return Buffer.concat([header, compressed]);
+}
+
+describe("readFontFamilies", () => {
+    let directory: string;
+
+    beforeAll(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-fonts-"));
+    });
+
+    afterAll(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    async function readFont(fileName: string, contents: Buffer) {
+        const fontPath = path.join(directory, fileName);
+        await fs.writeFile(fontPath, contents);
+        return readFontFamilies(fontPath);
+    }
+
+    it("reads the family and typographic family names of a TrueType font", async () => {
+        const nameTable = createNameTable([
+            windowsRecord(1, "Segoe UI Semibold"),
+            windowsRecord(2, "Regular"),
+            windowsRecord(16, "Segoe UI"),
+            { platform: 3, language: 0x407, nameId: 1, value: "Nicht Englisch" },
+        ]);
+        expect(await readFont("segoeuisb.ttf", createTrueType(nameTable))).toEqual(["Segoe UI Semibold", "Segoe UI"]);
+    });
+
+    it("reads Macintosh names as Latin-1", async () => {
+        const nameTable = createNameTable([macintoshRecord(1, "Zapfino"), windowsRecord(1, "Zapfino")]);
+        expect(await readFont("Zapfino.ttf", createTrueType(nameTable))).toEqual(["Zapfino"]);
+    });
+
+    it("reads every font of a collection", async () => {
+        const collection = createCollection([
+            createNameTable([windowsRecord(1, "Cambria")]),
+            createNameTable([windowsRecord(1, "Cambria Math")]),
+        ]);
+        expect(await readFont("cambria.ttc", collection)).toEqual(["Cambria", "Cambria Math"]);
+    });
+
+    it("reads the name table of a WOFF font, compressed or not", async () => {
+        const nameTable = createNameTable([windowsRecord(1, "Noto Sans")]);
+        const compressibleNameTable = createNameTable([
+            windowsRecord(0, "Copyright 2022 Google LLC. All Rights Reserved. ".repeat(8)),
+            windowsRecord(1, "Noto Sans"),
+        ]);
+        expect(createWoff(compressibleNameTable).length).toBeLessThan(compressibleNameTable.length);
+
+        expect(await readFont("NotoSans.woff", createWoff(nameTable))).toEqual(["Noto Sans"]);
+        expect(await readFont("NotoSans.woff", createWoff(compressibleNameTable))).toEqual(["Noto Sans"]);
+    });
+
+    it("falls back to the file name for WOFF2, truncated and missing fonts", async () => {
+        expect(await readFont("Roboto.woff2", Buffer.from("wOF2\0\0\0\0"))).toEqual(["Roboto"]);
+
+        const truncated = createTrueType(createNameTable([windowsRecord(1, "Arial")])).subarray(0, 40);
+        expect(await readFont("arial.ttf", truncated)).toEqual(["arial"]);
+
+        expect(await readFontFamilies(path.join(directory, "Missing.otf"))).toEqual(["Missing"]);
+    });
+});
@@ -0,0 +1,140 @@
+import { Buffer } from "node:buffer";
+import fs from "node:fs/promises";
+import path from "node:path";
+import zlib from "node:zlib";
+
+type FileReader = (offset: number, length: number) => Promise<Buffer>;
+
+type TableRecord = {
+    offset: number;
+    length: number;
+    compressedLength: number;
+};
+
+// The sfnt offset table is 12 bytes, followed by a 16 byte record per table.
+const sfntHeaderSize = 12;
+const sfntTableRecordSize = 16;
+// WOFF wraps the same tables in a 44 byte header and 20 byte records, and may zlib compress each table.
+const woffHeaderSize = 44;
+const woffTableRecordSize = 20;
+// A collection starts with the number of fonts at offset 8, followed by the offset of each font.
+const collectionHeaderSize = 12;
+// The name table has a 6 byte header, followed by a 12 byte record per name.
+const nameHeaderSize = 6;
+const nameRecordSize = 12;
+// Bounds that no real font gets near, so a corrupt header can't make us allocate gigabytes.
+const maxCollectionFonts = 256;
+const maxNameTableSize = 1_048_576;
+
+// The family name, and the typographic family name that groups more than four styles.
+const familyNameIds = new Set([1, 16]);
+const namePlatform = { unicode: 0, macintosh: 1, windows: 3 } as const;
+const windowsEnglish = 0x409;
+
+async function getFontOffsets(read: FileReader) {
+    const header = await read(0, collectionHeaderSize);
+    if (header.toString("latin1", 0, 4) !== "ttcf") {
+        return [0];
+    }
+    const fontCount = Math.min(header.readUInt32BE(8), maxCollectionFonts);
+    const offsets = await read(collectionHeaderSize, fontCount * 4);
+    return Array.from({ length: fontCount }, (_, index) => offsets.readUInt32BE(index * 4));
+}
+
+// Table offsets are relative to the start of the file, also inside a collection.
+async function findNameTable(read: FileReader, fontOffset: number): Promise<TableRecord | undefined> {
+    const header = await read(fontOffset, woffHeaderSize);
+    const signature = header.toString("latin1", 0, 4);
+    if (signature === "wOF2") {
+        return undefined;
+    }
+    const isWoff = signature === "wOFF";
+    const tableCount = header.readUInt16BE(isWoff ? 12 : 4);
+    const recordSize = isWoff ? woffTableRecordSize : sfntTableRecordSize;
+    const directory = await read(fontOffset + (isWoff ? woffHeaderSize : sfntHeaderSize), tableCount * recordSize);
+
+    for (let record = 0; record < tableCount * recordSize; record += recordSize) {
+        if (directory.toString("latin1", record, record + 4) !== "name") {
+            continue;
+        }
+        if (isWoff) {
+            return {
+                offset: directory.readUInt32BE(record + 4),
+                compressedLength: directory.readUInt32BE(record + 8),
+                length: directory.readUInt32BE(record + 12),
+            };
+        }
+        const length = directory.readUInt32BE(record + 12);
+        return { offset: directory.readUInt32BE(record + 8), length, compressedLength: length };
+    }
+    return undefined;
+}
+
+// Only the English names are read, Mac Roman names are close enough to Latin-1 for font names.
+function readFamilyNames(table: Buffer) {
+    const count = table.readUInt16BE(2);
+    const storageOffset = table.readUInt16BE(4);
+    const names = [] as string[];
+
+    for (let record = nameHeaderSize; record < nameHeaderSize + count * nameRecordSize; record += nameRecordSize) {
+        const platform = table.readUInt16BE(record);
+        const language = table.readUInt16BE(record + 4);
+        const offset = storageOffset + table.readUInt16BE(record + 10);
+        const value = table.subarray(offset, offset + table.readUInt16BE(record + 8));
+
+        if (!familyNameIds.has(table.readUInt16BE(record + 6))) {
+            continue;
+        }
+        if (platform === namePlatform.macintosh && language === 0) {
+            names.push(value.toString("latin1"));
+        } else if (
+            platform === namePlatform.unicode ||
+            (platform === namePlatform.windows && language === windowsEnglish)
+        ) {
+            names.push(Buffer.from(value).swap16().toString("utf16le"));
+        }
+    }
+    return names;
+}
+
+/**
+ * Read the family names of a font file, or of every font in a collection.
+ * Falls back to the file name when the file can't be parsed, like WOFF2 fonts whose tables are transformed.
+ */
+export async function readFontFamilies(filePath: string) {
+    const fallback = [path.basename(filePath, path.extname(filePath))];
+    const handle = await fs.open(filePath, "r").catch(() => undefined);
+    if (handle === undefined) {
+        return fallback;
+    }
+
+    const read: FileReader = async (offset, length) => {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, offset);
+        return buffer.subarray(0, bytesRead);
+    };
+
+    try {
+        const families = new Set<string>();
+        for (const fontOffset of await getFontOffsets(read)) {
+            const nameTable = await findNameTable(read, fontOffset);
+            if (nameTable === undefined || nameTable.compressedLength > maxNameTableSize) {
+                continue;
+            }
+            const data = await read(nameTable.offset, nameTable.compressedLength);
+            const table =
+                nameTable.compressedLength < nameTable.length
+                    ? zlib.inflateSync(data, { maxOutputLength: maxNameTableSize })
+                    : data;
+            for (const name of readFamilyNames(table)) {
+                families.add(name);
+            }
+        }
+        return families.size > 0 ? [...families] : fallback;
+    } catch {
+        // Truncated or malformed tables read out of bounds.
+        return fallback;
+    } finally {
+        await handle.close();
+    }
+}
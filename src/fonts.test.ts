@@ -0,0 +1,86 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fontCatalogs } from "./fontData";
+import { addFontsToConfig, addVoicesToConfig, listInstalledFontFamilies } from "./fonts";
+import type { ConfigValue } from "./helper";
+
+describe("addFontsToConfig", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("adds the fonts of the target OS, the custom fonts and a seeded letter spacing", () => {
+        const first: Record<string, ConfigValue> = {};
+        const second: Record<string, ConfigValue> = {};
+        addFontsToConfig(first, "linux", { customFonts: ["Inter"], seed: 7 });
+        addFontsToConfig(second, "linux", { seed: 7 });
+
+        expect(first.fonts).toEqual([...fontCatalogs.linux, "Inter"]);
+        expect(first["fonts:spacing_seed"]).toBe(second["fonts:spacing_seed"]);
+    });
+
+    it("leaves out fonts the install doesn't ship, and warns about custom ones", () => {
+        const emitWarning = vi.spyOn(process, "emitWarning").mockImplementation(() => undefined);
+        const mainConfig: Record<string, ConfigValue> = {};
+        addFontsToConfig(mainConfig, "windows", { customFonts: ["Inter"] }, new Set(["arial", "tahoma"]));
+
+        expect(mainConfig.fonts).toEqual(["Arial", "Tahoma"]);
+        expect(emitWarning).toHaveBeenCalledWith(expect.stringContaining("'Inter'"), {
+            code: "CAMOUFOX_FONTS_MISSING",
+        });
+    });
+});
+
+describe("addVoicesToConfig", () => {
+    it("only lists the Windows voices of the locale's language, next to the English ones", () => {
+        const mainConfig: Record<string, ConfigValue> = { "locale:all": "de-DE" };
+        addVoicesToConfig(mainConfig, "windows");
+        const voices = mainConfig.voices as { lang: string; isDefault: boolean }[];
+
+        expect(new Set(voices.map((voice) => voice.lang))).toEqual(new Set(["en-US", "de-DE"]));
+        expect(voices.filter((voice) => voice.isDefault)).toEqual([expect.objectContaining({ lang: "de-DE" })]);
+        expect(mainConfig["voices:blockIfNotDefined"]).toBe(true);
+    });
+});
+
+describe.skipIf(process.platform === "darwin")("listInstalledFontFamilies", () => {
+    let install: string;
+    let executablePath: string;
+
+    beforeEach(async () => {
+        install = await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-fonts-"));
+        executablePath = path.join(install, "camoufox-bin");
+        await fs.mkdir(path.join(install, "fonts", "windows"), { recursive: true });
+        await fs.writeFile(path.join(install, "fonts", "windows", "Arial.ttf"), "");
+    });
+
+    afterEach(async () => {
+        await fs.rm(install, { recursive: true, force: true });
+    });
+
+    it("falls back to the lower case file names of unparsable fonts", async () => {
+        expect(await listInstalledFontFamilies(executablePath)).toEqual(new Set(["arial"]));
+    });
+
+    it("scans the install again once a font is added or removed", async () => {
+        const fontsDirectory = path.join(install, "fonts", "windows");
+        expect(await listInstalledFontFamilies(executablePath)).toEqual(new Set(["arial"]));
+
+        // Directory modification times can be coarse, move them on explicitly.
+        await fs.writeFile(path.join(fontsDirectory, "Tahoma.ttf"), "");
+        await fs.utimes(fontsDirectory, new Date(), new Date(Date.now() + 1000));
+        expect(await listInstalledFontFamilies(executablePath)).toEqual(new Set(["arial", "tahoma"]));
+
+        await fs.rm(path.join(fontsDirectory, "Arial.ttf"));
+        await fs.utimes(fontsDirectory, new Date(), new Date(Date.now() + 2000));
+        expect(await listInstalledFontFamilies(executablePath)).toEqual(new Set(["tahoma"]));
+    });
+
+    it("finds nothing without a fonts directory", async () => {
+        await fs.rm(path.join(install, "fonts"), { recursive: true });
+        expect(await listInstalledFontFamilies(executablePath)).toEqual(new Set());
+    });
+});
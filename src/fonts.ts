@@ -0,0 +1,163 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import { z } from "zod/v4/mini";
+import type { TargetOS } from "./fingerprintData";
+import { fontCatalogs, type Voice, voiceCatalogs } from "./fontData";
+import { readFontFamilies } from "./fontFile";
+import {
+    addToConfig,
+    type ConfigOrigin,
+    type ConfigValue,
+    cachePending,
+    createRandomSource,
+    uint32Range,
+} from "./helper";
+import { listFonts } from "./info";
+import { getInstallDirectories } from "./launchPath";
+
+export const zodCustomFonts = z.array(z.string().check(z.minLength(1)));
+
+// Locale assumed for the voices when the config has none.
+const defaultLocale = "en-US";
+
+// Process-wide cache of the font families per install directory, scanned again once its fonts change.
+const fontScanCache = new Map<string, { mtimeMs: number; families: Promise<Set<string>> }>();
+
+// The newest modification time of the `fonts` directory and its subdirectories, adding or removing a font changes it.
+async function getFontsModifiedTime(directory: string) {
+    const fontsDirectory = path.join(directory, "fonts");
+    const entries = await fs.readdir(fontsDirectory, { recursive: true, withFileTypes: true });
+    const directories = entries
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => path.join(entry.parentPath, entry.name));
+    const directoryStats = await Promise.all(
+        [fontsDirectory, ...directories].map((subdirectory) => fs.stat(subdirectory)),
+    );
+    return Math.max(...directoryStats.map((directoryStat) => directoryStat.mtimeMs));
+}
+
+async function readInstalledFontFamilies(directory: string) {
+    const families = new Set<string>();
+    // One file at a time, an install ships hundreds of fonts.
+    for (const fontPath of await listFonts([directory])) {
+        for (const family of await readFontFamilies(fontPath)) {
+            families.add(family.toLowerCase());
+        }
+    }
+    return families;
+}
+
+async function scanInstallDirectory(directory: string) {
+    const mtimeMs = await getFontsModifiedTime(directory).catch(() => undefined);
+    if (mtimeMs === undefined) {
+        return new Set<string>();
+    }
+
+    const cached = fontScanCache.get(directory);
+    if (cached?.mtimeMs === mtimeMs) {
+        return cached.families;
+    }
+
+    // Parsing hundreds of font files takes a while, launches from the same install share one scan.
+    const families = readInstalledFontFamilies(directory);
+    cachePending(fontScanCache, directory, { mtimeMs, families }, families);
+    return families;
+}
+
+/**
+ * Lower case family names of every font in the `fonts` directory of the install.
+ */
+export async function listInstalledFontFamilies(executablePath: string) {
+    const families = new Set<string>();
+    for (const directory of getInstallDirectories(executablePath)) {
+        for (const family of await scanInstallDirectory(directory)) {
+            families.add(family);
+        }
+    }
+    return families;
+}
+
+type FontOptions = {
+    customFonts?: string[] | undefined;
+    seed?: string | number | undefined;
+};
+
+/**
+ * Add the font list of the target OS, the custom fonts and a letter spacing seed.
+ * Fonts missing from the install are left out, an empty install `fonts` directory means there is nothing to check against.
+ */
+export function addFontsToConfig(
+    mainConfig: Record<string, ConfigValue>,
+    targetOS: TargetOS,
+    { customFonts = [], seed }: FontOptions,
+    installedFonts?: Set<string>,
+) {
+    const isInstalled = (font: string) =>
+        installedFonts === undefined || installedFonts.size === 0 || installedFonts.has(font.toLowerCase());
+
+    const missingFonts = customFonts.filter((font) => !isInstalled(font));
+    if (missingFonts.length > 0) {
+        process.emitWarning(
+            `${missingFonts.map((font) => `'${font}'`).join(", ")} not found in the fonts directory of the install, leaving them out`,
+            { code: "CAMOUFOX_FONTS_MISSING" },
+        );
+    }
+
+    const fonts = [...new Set([...fontCatalogs[targetOS], ...customFonts])].filter(isInstalled);
+    const origin: ConfigOrigin = {
+        source: "fingerprint",
+        detail: customFonts.length > 0 ? `${targetOS} fonts and customFonts` : `${targetOS} fonts`,
+    };
+    addToConfig(mainConfig, "fonts", fonts, origin);
+
+    // Drawn apart from the fingerprint, so the same seed doesn't give the same first number to both.
+    const random = createRandomSource(seed === undefined ? undefined : `${seed}:fonts`);
+    addToConfig(mainConfig, "fonts:spacing_seed", Math.floor(random() * uint32Range), origin);
+}
+
+function getLocales(config: Record<string, ConfigValue>) {
+    const locales = config["locale:all"];
+    if (typeof locales !== "string" || locales.length === 0) {
+        return [defaultLocale];
+    }
+    return locales.split(",").map((locale) => locale.trim().replaceAll("_", "-"));
+}
+
+const getLanguage = (locale: string) => locale.split("-")[0]?.toLowerCase();
+
+// The voice of the primary locale, otherwise one of its language, otherwise the first voice.
+function findDefaultVoice(voices: readonly Voice[], primaryLocale: string) {
+    return (
+        voices.find((voice) => voice.lang.toLowerCase() === primaryLocale.toLowerCase()) ??
+        voices.find((voice) => getLanguage(voice.lang) === getLanguage(primaryLocale)) ??
+        voices[0]
+    );
+}
+
+/**
+ * Add the speech synthesis voices of the target OS, with the default voice matching the locale.
+ * The host's own voices are hidden, call after the locale is set.
+ */
+export function addVoicesToConfig(mainConfig: Record<string, ConfigValue>, targetOS: TargetOS) {
+    const locales = getLocales(mainConfig);
+    const languages = new Set(locales.map(getLanguage));
+
+    // Windows only has the voices of its display languages, next to the English ones.
+    const voices =
+        targetOS === "windows"
+            ? voiceCatalogs.windows.filter(
+                  (voice) => voice.lang === defaultLocale || languages.has(getLanguage(voice.lang)),
+              )
+            : voiceCatalogs[targetOS];
+    const defaultVoice = findDefaultVoice(voices, locales[0] ?? defaultLocale);
+
+    const origin: ConfigOrigin = { source: "fingerprint", detail: `${targetOS} voices` };
+    addToConfig(
+        mainConfig,
+        "voices",
+        voices.map((voice) => ({ ...voice, isLocalService: true, isDefault: voice === defaultVoice })),
+        origin,
+    );
+    addToConfig(mainConfig, "voices:blockIfNotDefined", true, origin);
+}
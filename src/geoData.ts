@@ -1,8 +1,13 @@
-import fs from "node:fs/promises";
-import path from "node:path";
 import clm from "country-locale-map";
-import { type CityResponse, type CountryResponse, Reader } from "maxmind";
 import { z } from "zod/v4/mini";
+import { GeoIPLookupError } from "./errors";
+import {
+    findDefaultGeoIPDatabases,
+    type GeoIPDatabaseSource,
+    type GeoIPLookup,
+    type GeoIPLookupOptions,
+    lookupGeoIP,
+} from "./geoipDatabase";
 import type { ipOutputObjectType } from "./proxy";
 
 function pickPubIP(ipObject: ipOutputObjectType) {
@@ -15,55 +20,89 @@ function pickPubIP(ipObject: ipOutputObjectType) {
     if (typeof ipObject.ipv4 === "string" && typeof ipObject.ipv6 === "string") {
         return ipObject.ipv4;
     }
-    throw new Error("Geolocation and Locale error, A valid IP address is requied");
+    throw new GeoIPLookupError("Geolocation and Locale error, A valid IP address is requied", {
+        context: { ip: ipObject },
+    });
 }
 
 const geolocationAndLocaleObject = z.strictObject({
-    longitude: z.number(),
-    latitude: z.number(),
-    accuracy: z.number(),
+    longitude: z.optional(z.number()),
+    latitude: z.optional(z.number()),
+    accuracy: z.optional(z.number()),
     timezone: z.optional(z.string()),
+    countryCode: z.string(),
     locales: z.string(),
+    asn: z.optional(z.strictObject({ number: z.number(), organization: z.string() })),
 });
 
-export async function getGeolocationAndLocale(ipObject: ipOutputObjectType, directory: string) {
-    const pubIP = pickPubIP(ipObject);
+const maxLatitude = 90;
+const maxLongitude = 180;
 
-    const parsedDirectory = path.parse(directory);
-    const mmdbFile = path.resolve(parsedDirectory.dir, "GeoLite2-City.mmdb");
+export const zodGeolocation = z.strictObject({
+    /**
+     * Latitude in degrees, between `-90` and `90`.
+     */
+    latitude: z.number().check(z.gte(-maxLatitude), z.lte(maxLatitude)),
+    /**
+     * Longitude in degrees, between `-180` and `180`.
+     */
+    longitude: z.number().check(z.gte(-maxLongitude), z.lte(maxLongitude)),
+    /**
+     * Accuracy radius in meters.
+     */
+    accuracy: z.optional(z.number().check(z.positive())),
+});
 
-    const fileStats = await fs.stat(mmdbFile);
-    if (fileStats.isFile()) {
-        const buffer = await fs.readFile(mmdbFile);
+type GeoDataOptions = GeoIPLookupOptions & {
+    geoipDatabase?: GeoIPDatabaseSource | GeoIPDatabaseSource[] | undefined;
+};
 
-        const cityLookup = new Reader<CityResponse>(buffer);
-        const countryLookup = new Reader<CountryResponse>(buffer);
+async function lookupGeoData(
+    pubIP: string,
+    executablePath: string,
+    { geoipDatabase, ...lookupOptions }: GeoDataOptions,
+) {
+    // Use the given databases, otherwise the ones of the Camoufox install.
+    const databases =
+        geoipDatabase === undefined ? await findDefaultGeoIPDatabases(executablePath) : [geoipDatabase].flat();
 
-        const maxmindCity = cityLookup.get(pubIP);
-        const maxmindCountry = countryLookup.get(pubIP);
+    return lookupGeoIP(pubIP, databases, lookupOptions);
+}
 
-        if (maxmindCity && maxmindCountry) {
-            const location = maxmindCity.location;
-            const country = maxmindCountry.country;
+/**
+ * Find the geolocation and locales of the public IP.
+ * A stand-in lookup result skips the databases entirely, for dry runs.
+ */
+export async function getGeolocationAndLocale(
+    ipObject: ipOutputObjectType,
+    executablePath: string,
+    options: GeoDataOptions = {},
+    standIn?: GeoIPLookup,
+) {
+    const pubIP = pickPubIP(ipObject);
+    const geoIP = standIn ?? (await lookupGeoData(pubIP, executablePath, options));
 
-            if (location && country) {
-                const clmData = clm.getCountryByAlpha2(country.iso_code);
+    if (geoIP.countryCode) {
+        const clmData = clm.getCountryByAlpha2(geoIP.countryCode);
 
-                if (clmData) {
-                    const geoDataOutput = geolocationAndLocaleObject.parse({
-                        longitude: location.longitude,
-                        latitude: location.latitude,
-                        accuracy: location.accuracy_radius,
-                        timezone: location.time_zone,
-                        locales: clmData.locales.join(", "),
-                    });
-                    return geoDataOutput;
-                }
-                throw new Error("Geolocation and Locale error, Unknown iso country code");
-            }
-            throw new Error(`Geolocation and Locale error, No geoData found for current IP: ${pubIP}`);
+        if (clmData) {
+            // Country databases have no location, only the locale can be derived from them.
+            const geoDataOutput = geolocationAndLocaleObject.parse({
+                longitude: geoIP.location?.longitude,
+                latitude: geoIP.location?.latitude,
+                accuracy: geoIP.location?.accuracy,
+                timezone: geoIP.location?.timezone,
+                countryCode: geoIP.countryCode,
+                locales: clmData.locales.join(", "),
+                asn: geoIP.asn,
+            });
+            return geoDataOutput;
         }
-        throw new Error(`Geolocation and Locale error, No geoData found for current IP: ${pubIP}`);
+        throw new GeoIPLookupError("Geolocation and Locale error, Unknown iso country code", {
+            context: { ip: pubIP, countryCode: geoIP.countryCode },
+        });
     }
-    throw new Error("Geolocation and Locale error, '.mmdb' file not found");
+    throw new GeoIPLookupError(`Geolocation and Locale error, No geoData found for current IP: ${pubIP}`, {
+        context: { ip: pubIP },
+    });
 }
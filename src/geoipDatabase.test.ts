@@ -0,0 +1,282 @@
+import { Buffer } from "node:buffer";
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import zlib from "node:zlib";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { GeoIPDatabaseError } from "./errors";
+import { clearGeoIPDatabaseCache, findDefaultGeoIPDatabases, installGeoIPDatabase, lookupGeoIP } from "./geoipDatabase";
+import { getVersionsDirectory } from "./launchPath";
+
+type MMDBValue = string | number | boolean | MMDBValue[] | { [key: string]: MMDBValue };
+
+// Control byte of a MaxMind DB data field, the type in the top 3 bits and the size in the lower 5 bits.
+// Types above 7 are stored in an extra byte.
+function encodeControl(type: number, size: number) {
+    const sizeBytes = size < 29 ? [] : [size - 29];
+    const control = [(type > 7 ? 0 : type) * 32 + Math.min(size, 29)];
+    return Buffer.from(type > 7 ? [...control, type - 7, ...sizeBytes] : [...control, ...sizeBytes]);
+}
+
+function encodeValue(value: MMDBValue): Buffer {
+    if (typeof value === "string") {
+        const bytes = Buffer.from(value, "utf8");
+        return Buffer.concat([encodeControl(2, bytes.length), bytes]);
+    }
+    if (typeof value === "boolean") {
+        return encodeControl(14, value ? 1 : 0);
+    }
+    if (typeof value === "number" && Number.isInteger(value) && value >= 0) {
+        const bytes = Buffer.alloc(4);
+        bytes.writeUInt32BE(value);
+        return Buffer.concat([encodeControl(6, 4), bytes]);
+    }
+    if (typeof value === "number") {
+        const bytes = Buffer.alloc(8);
+        bytes.writeDoubleBE(value);
+        return Buffer.concat([encodeControl(3, 8), bytes]);
+    }
+    if (Array.isArray(value)) {
+        return Buffer.concat([encodeControl(11, value.length), ...value.map(encodeValue)]);
+    }
+    const entries = Object.entries(value);
+    return Buffer.concat([
+        encodeControl(7, entries.length),
+        ...entries.flatMap(([key, entry]) => [encodeValue(key), encodeValue(entry)]),
+    ]);
+}
+
+/**
+ * Write a minimal IPv4 MaxMind database with 24 bit records, mapping every `/24` network to a record.
+ */
+function createMMDB(databaseType: string, networks: Record<string, MMDBValue>, buildEpoch = new Date()) {
+    const recordSize = 24;
+    const nodes = [[-1, -1]] as [number, number][];
+    const records = Object.values(networks).map(encodeValue);
+    const recordOffsets = records.map((_, index) =>
+        records.slice(0, index).reduce((offset, record) => offset + record.length, 0),
+    );
+
+    for (const [index, network] of Object.keys(networks).entries()) {
+        const bits = network
+            .split(".")
+            .slice(0, 3)
+            .flatMap((octet) => [...Number(octet).toString(2).padStart(8, "0")].map(Number));
+
+        let node = 0;
+        for (const [depth, bit] of bits.entries()) {
+            const current = nodes[node] as [number, number];
+            if (depth === bits.length - 1) {
+                current[bit as 0 | 1] = -2 - index;
+            } else {
+                if (current[bit as 0 | 1] === -1) {
+                    nodes.push([-1, -1]);
+                    current[bit as 0 | 1] = nodes.length - 1;
+                }
+                node = current[bit as 0 | 1];
+            }
+        }
+    }
+
+    // Empty records point to the node count, data records past the 16 byte separator.
+    const resolveRecord = (record: number) => {
+        if (record === -1) {
+            return nodes.length;
+        }
+        return record < -1 ? nodes.length + 16 + (recordOffsets[-2 - record] ?? 0) : record;
+    };
+    const tree = Buffer.alloc(nodes.length * 6);
+    for (const [index, [left, right]] of nodes.entries()) {
+        tree.writeUIntBE(resolveRecord(left), index * 6, 3);
+        tree.writeUIntBE(resolveRecord(right), index * 6 + 3, 3);
+    }
+
+    const metadata = encodeValue({
+        node_count: nodes.length,
+        record_size: recordSize,
+        ip_version: 4,
+        database_type: databaseType,
+        languages: ["en"],
+        binary_format_major_version: 2,
+        binary_format_minor_version: 0,
+        build_epoch: Math.floor(buildEpoch.getTime() / 1000),
+        description: { en: "Test database" },
+    });
+
+    return Buffer.concat([
+        tree,
+        Buffer.alloc(16),
+        ...records,
+        Buffer.from("ABCDEF4D61784D696E642E636F6D", "hex"),
+        metadata,
+    ]);
+}
+
+const london = {
+    country: { iso_code: "GB" },
+    location: { latitude: 51.5072, longitude: -0.1276, accuracy_radius: 20, time_zone: "Europe/London" },
+};
+const cityDatabase = createMMDB("GeoLite2-City", {
+    "203.0.113.0": london,
+    "198.51.100.0": { country: { iso_code: "DE" } },
+});
+const countryDatabase = createMMDB("GeoLite2-Country", { "203.0.113.0": { country: { iso_code: "FR" } } });
+const asnDatabase = createMMDB("GeoLite2-ASN", {
+    "203.0.113.0": { autonomous_system_number: 64_500, autonomous_system_organization: "Example Hosting" },
+});
+
+describe("lookupGeoIP", () => {
+    let directory: string;
+
+    beforeAll(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-geoip-"));
+    });
+
+    afterAll(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        clearGeoIPDatabaseCache();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("reads the country and location from a City database", async () => {
+        expect(await lookupGeoIP("203.0.113.7", [cityDatabase])).toEqual({
+            countryCode: "GB",
+            location: { latitude: 51.5072, longitude: -0.1276, accuracy: 20, timezone: "Europe/London" },
+        });
+        expect(await lookupGeoIP("198.51.100.1", [cityDatabase])).toEqual({ countryCode: "DE" });
+        expect(await lookupGeoIP("192.0.2.1", [cityDatabase])).toEqual({});
+    });
+
+    it("combines the first location with the ASN of an ASN database", async () => {
+        expect(await lookupGeoIP("203.0.113.7", [countryDatabase, cityDatabase, asnDatabase])).toEqual({
+            countryCode: "FR",
+            location: { latitude: 51.5072, longitude: -0.1276, accuracy: 20, timezone: "Europe/London" },
+            asn: { number: 64_500, organization: "Example Hosting" },
+        });
+    });
+
+    it("reads a file again once it changes", async () => {
+        const databasePath = path.join(directory, "GeoLite2-Country.mmdb");
+        await fs.writeFile(databasePath, countryDatabase);
+        expect(await lookupGeoIP("203.0.113.7", [databasePath])).toEqual({ countryCode: "FR" });
+
+        await fs.writeFile(
+            databasePath,
+            createMMDB("GeoLite2-Country", { "203.0.113.0": { country: { iso_code: "ES" } } }),
+        );
+        await fs.utimes(databasePath, new Date(), new Date(Date.now() + 1000));
+        expect(await lookupGeoIP("203.0.113.7", [databasePath])).toEqual({ countryCode: "ES" });
+    });
+
+    it("keeps the reader of an updated file when an older read fails late", async () => {
+        const databasePath = path.join(directory, "GeoLite2-City.mmdb");
+        await fs.writeFile(databasePath, cityDatabase);
+        const readFile = vi.spyOn(fs, "readFile");
+        readFile.mockImplementationOnce(
+            () => new Promise((_, reject) => setTimeout(() => reject(new Error("EIO: i/o error, read")), 100)),
+        );
+
+        const olderLookup = lookupGeoIP("203.0.113.7", [databasePath]);
+        await vi.waitFor(() => expect(readFile).toHaveBeenCalledOnce());
+        await fs.writeFile(databasePath, countryDatabase);
+        await fs.utimes(databasePath, new Date(), new Date(Date.now() + 2000));
+
+        expect(await lookupGeoIP("203.0.113.7", [databasePath])).toEqual({ countryCode: "FR" });
+        await expect(olderLookup).rejects.toThrow(/i\/o error/);
+        expect(await lookupGeoIP("203.0.113.7", [databasePath])).toEqual({ countryCode: "FR" });
+        expect(readFile).toHaveBeenCalledTimes(2);
+    });
+
+    it("rejects missing, corrupt, unsupported and outdated databases", async () => {
+        await expect(lookupGeoIP("203.0.113.7", [path.join(directory, "missing.mmdb")])).rejects.toThrow(
+            /file not found/,
+        );
+        await expect(lookupGeoIP("203.0.113.7", [Buffer.from("not a database")])).rejects.toThrow(GeoIPDatabaseError);
+        await expect(lookupGeoIP("203.0.113.7", [createMMDB("GeoIP2-Domain", {})])).rejects.toThrow(
+            /Unsupported database type 'GeoIP2-Domain'/,
+        );
+
+        const twoYearsAgo = new Date(Date.now() - 2 * 365 * 86_400_000);
+        await expect(lookupGeoIP("203.0.113.7", [createMMDB("GeoLite2-City", {}, twoYearsAgo)])).rejects.toThrow(
+            /is outdated/,
+        );
+    });
+
+    it("uses an outdated database only when allowed to", async () => {
+        const twoYearsAgo = new Date(Date.now() - 2 * 365 * 86_400_000);
+        const outdatedDatabase = createMMDB(
+            "GeoLite2-Country",
+            { "203.0.113.0": { country: { iso_code: "FR" } } },
+            twoYearsAgo,
+        );
+
+        await expect(lookupGeoIP("203.0.113.7", [outdatedDatabase])).rejects.toThrow(GeoIPDatabaseError);
+        expect(await lookupGeoIP("203.0.113.7", [outdatedDatabase], { allowOutdated: true })).toEqual({
+            countryCode: "FR",
+        });
+    });
+});
+
+describe("installGeoIPDatabase", () => {
+    let directory: string;
+
+    beforeAll(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-geoip-install-"));
+        await fs.writeFile(path.join(directory, "city.mmdb.gz"), zlib.gzipSync(cityDatabase));
+    });
+
+    afterAll(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("unpacks a local gzipped database under its database type", async () => {
+        const source = path.join(directory, "city.mmdb.gz");
+        const destination = path.join(directory, "install");
+        const sha256 = crypto
+            .createHash("sha256")
+            .update(await fs.readFile(source))
+            .digest("hex");
+
+        const databasePath = await installGeoIPDatabase({ source, destination, sha256 });
+
+        expect(databasePath).toBe(path.join(destination, "GeoLite2-City.mmdb"));
+        expect(await fs.readFile(databasePath)).toEqual(cityDatabase);
+        expect(await fs.readdir(destination)).toEqual(["GeoLite2-City.mmdb"]);
+    });
+
+    it("installs into the GeoIP directory every install looks in", async () => {
+        vi.stubEnv("HOME", directory);
+        try {
+            const databasePath = await installGeoIPDatabase({ source: path.join(directory, "city.mmdb.gz") });
+            const executablePath = path.join(getVersionsDirectory(), "135.0.1-beta.24", "camoufox-bin");
+
+            expect(await findDefaultGeoIPDatabases(executablePath)).toEqual([databasePath]);
+        } finally {
+            vi.unstubAllEnvs();
+        }
+    });
+
+    it("only installs databases under the names the default lookup knows", async () => {
+        const source = path.join(directory, "escape.mmdb");
+        await fs.writeFile(source, createMMDB("../../GeoLite2-City", {}));
+
+        await expect(
+            installGeoIPDatabase({ source, destination: path.join(directory, "nested", "install") }),
+        ).rejects.toThrow(/Can't install a '\.\.\/\.\.\/GeoLite2-City' database/);
+        await expect(fs.access(path.join(directory, "GeoLite2-City.mmdb"))).rejects.toThrow();
+    });
+
+    it("refuses a file with the wrong checksum", async () => {
+        const source = path.join(directory, "city.mmdb.gz");
+        await expect(
+            installGeoIPDatabase({ source, destination: path.join(directory, "other"), sha256: "0".repeat(64) }),
+        ).rejects.toThrow(/Checksum mismatch/);
+    });
+});
@@ -0,0 +1,295 @@
+import { Buffer } from "node:buffer";
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import zlib from "node:zlib";
+import { type AsnResponse, type CityResponse, Reader } from "maxmind";
+import { z } from "zod/v4/mini";
+import { isGzip, isTar, readTarEntries } from "./archive";
+import { GeoIPDatabaseError, OptionsValidationError } from "./errors";
+import { cachePending, readSource } from "./helper";
+import { getGeoIPDirectory, getInstallDirectories } from "./launchPath";
+
+const zodGeoIPDatabaseSource = z.union([z.string(), z.instanceof(Buffer)]);
+export const zodGeoIPDatabase = z.union([
+    zodGeoIPDatabaseSource,
+    z.array(zodGeoIPDatabaseSource).check(z.minLength(1)),
+]);
+export type GeoIPDatabaseSource = z.infer<typeof zodGeoIPDatabaseSource>;
+
+/**
+ * Database file names looked for in the Camoufox install and the GeoIP directory, when no database is given.
+ * The first City or Country database found is used, an ASN database is used on top of it.
+ */
+export const defaultGeoIPDatabaseNames = [
+    "GeoLite2-City.mmdb",
+    "GeoIP2-City.mmdb",
+    "GeoLite2-Country.mmdb",
+    "GeoIP2-Country.mmdb",
+] as const;
+const defaultASNDatabaseName = "GeoLite2-ASN.mmdb";
+
+// Locations drift over time, a database older than a year can no longer be trusted.
+const maxDatabaseAgeInDays = 365;
+const dayInMilliseconds = 86_400_000;
+
+type GeoIPDatabaseKind = "city" | "country" | "asn";
+
+type GeoIPDatabase = {
+    kind: GeoIPDatabaseKind;
+    reader: Reader<CityResponse | AsnResponse>;
+    source: string;
+};
+
+function getDatabaseKind(databaseType: string): GeoIPDatabaseKind | undefined {
+    if (/city|enterprise/i.test(databaseType)) {
+        return "city";
+    }
+    if (/country/i.test(databaseType)) {
+        return "country";
+    }
+    if (/asn/i.test(databaseType)) {
+        return "asn";
+    }
+    return undefined;
+}
+
+function createDatabase(buffer: Buffer, source: string): GeoIPDatabase {
+    let reader: Reader<CityResponse | AsnResponse>;
+    try {
+        reader = new Reader<CityResponse | AsnResponse>(buffer);
+    } catch (error) {
+        throw new GeoIPDatabaseError(`GeoIP database error, '${source}' is corrupt or not a MaxMind database`, {
+            context: { source },
+            cause: error,
+        });
+    }
+
+    const kind = getDatabaseKind(reader.metadata.databaseType);
+    if (kind === undefined) {
+        throw new GeoIPDatabaseError(
+            `GeoIP database error, Unsupported database type '${reader.metadata.databaseType}' in '${source}', Only City, Country and ASN databases are supported`,
+            { context: { source, databaseType: reader.metadata.databaseType } },
+        );
+    }
+
+    return { kind, reader, source };
+}
+
+// Checked on every lookup rather than once on open, a cached reader grows outdated and callers differ in what they accept.
+function checkDatabaseAge({ reader, source }: GeoIPDatabase) {
+    const buildDate = reader.metadata.buildEpoch;
+    if (Date.now() - buildDate.getTime() > maxDatabaseAgeInDays * dayInMilliseconds) {
+        throw new GeoIPDatabaseError(
+            `GeoIP database error, '${source}' was built on ${buildDate.toISOString().slice(0, 10)} and is outdated, Update it with 'installGeoIPDatabase' or allow outdated databases`,
+            { context: { source, buildDate } },
+        );
+    }
+}
+
+// Process-wide cache of opened databases, a file is read again once its modification time changes.
+const fileCache = new Map<string, { mtimeMs: number; size: number; database: Promise<GeoIPDatabase> }>();
+const bufferCache = new WeakMap<Buffer, GeoIPDatabase>();
+
+async function openGeoIPDatabase(source: GeoIPDatabaseSource) {
+    if (Buffer.isBuffer(source)) {
+        const cached = bufferCache.get(source) ?? createDatabase(source, "<Buffer>");
+        bufferCache.set(source, cached);
+        return cached;
+    }
+
+    const filePath = path.resolve(source);
+    const fileStats = await fs.stat(filePath).catch(() => undefined);
+    if (!fileStats?.isFile()) {
+        throw new GeoIPDatabaseError(`GeoIP database error, '${filePath}' file not found`, {
+            context: { source: filePath },
+        });
+    }
+
+    const cached = fileCache.get(filePath);
+    if (cached && cached.mtimeMs === fileStats.mtimeMs && cached.size === fileStats.size) {
+        return cached.database;
+    }
+
+    // A City database takes tens of megabytes, launches share one reader instead of each reading the file.
+    const database = fs.readFile(filePath).then((buffer) => createDatabase(buffer, filePath));
+    cachePending(fileCache, filePath, { mtimeMs: fileStats.mtimeMs, size: fileStats.size, database }, database);
+    return database;
+}
+
+/**
+ * Forget every cached GeoIP database reader.
+ */
+export function clearGeoIPDatabaseCache() {
+    fileCache.clear();
+}
+
+// The first of the files found in any of the directories.
+async function findFirstFile(directories: string[], fileNames: readonly string[]) {
+    for (const directory of directories) {
+        for (const fileName of fileNames) {
+            const filePath = path.resolve(directory, fileName);
+            if ((await fs.stat(filePath).catch(() => undefined))?.isFile()) {
+                return filePath;
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Find the default databases of a Camoufox install, shipped with the install or installed by `installGeoIPDatabase`.
+ */
+export async function findDefaultGeoIPDatabases(executablePath: string) {
+    const directories = [...getInstallDirectories(executablePath), getGeoIPDirectory()];
+
+    const databasePath = await findFirstFile(directories, defaultGeoIPDatabaseNames);
+    if (databasePath === undefined) {
+        throw new GeoIPDatabaseError("Geolocation and Locale error, '.mmdb' file not found", {
+            context: { directories },
+        });
+    }
+
+    const asnDatabasePath = await findFirstFile(directories, [defaultASNDatabaseName]);
+    return asnDatabasePath ? [databasePath, asnDatabasePath] : [databasePath];
+}
+
+export type GeoIPLookup = {
+    countryCode?: string;
+    location?: {
+        latitude: number;
+        longitude: number;
+        accuracy: number;
+        timezone?: string;
+    };
+    asn?: {
+        number: number;
+        organization: string;
+    };
+};
+
+export type GeoIPLookupOptions = {
+    /**
+     * Use databases built more than a year ago, instead of throwing a `GeoIPDatabaseError`.
+     */
+    allowOutdated?: boolean;
+};
+
+/**
+ * Look up an IP address in every given database, combining the results.
+ */
+export async function lookupGeoIP(
+    ip: string,
+    sources: GeoIPDatabaseSource[],
+    { allowOutdated }: GeoIPLookupOptions = {},
+) {
+    const databases = await Promise.all(sources.map(openGeoIPDatabase));
+    const geoIPLookup: GeoIPLookup = {};
+
+    for (const database of databases) {
+        if (!allowOutdated) {
+            checkDatabaseAge(database);
+        }
+        if (database.kind === "asn") {
+            const asnResponse = database.reader.get(ip) as AsnResponse | null;
+            if (asnResponse && geoIPLookup.asn === undefined) {
+                geoIPLookup.asn = {
+                    number: asnResponse.autonomous_system_number,
+                    organization: asnResponse.autonomous_system_organization,
+                };
+            }
+            continue;
+        }
+
+        const cityResponse = database.reader.get(ip) as CityResponse | null;
+        const country = cityResponse?.country ?? cityResponse?.registered_country;
+        geoIPLookup.countryCode ??= country?.iso_code;
+
+        const location = cityResponse?.location;
+        if (location && geoIPLookup.location === undefined) {
+            geoIPLookup.location = {
+                latitude: location.latitude,
+                longitude: location.longitude,
+                accuracy: location.accuracy_radius,
+                timezone: location.time_zone,
+            };
+        }
+    }
+    return geoIPLookup;
+}
+
+export const zodGeoIPInstallOptions = z.strictObject({
+    /**
+     * URL or local filepath of the database to install.
+     * Either a plain `.mmdb` file, a gzipped `.mmdb.gz` file or a `.tar.gz` archive as distributed by MaxMind.
+     */
+    source: z.string(),
+    /**
+     * Directory to install the database to.
+     * Defaults to the GeoIP directory in the Camoufox cache, where every install picks it up automatically.
+     */
+    destination: z.optional(z.string()),
+    /**
+     * Expected SHA-256 checksum of the downloaded file, as hex.
+     */
+    sha256: z.optional(z.string().check(z.regex(z.regexes.sha256_hex))),
+});
+export type GeoIPInstallOptions = z.infer<typeof zodGeoIPInstallOptions>;
+
+function extractDatabase(archive: Buffer, source: string) {
+    if (isTar(archive)) {
+        const database = readTarEntries(archive).find((entry) => entry.path.endsWith(".mmdb"));
+        if (database === undefined) {
+            throw new GeoIPDatabaseError(`GeoIP database error, No '.mmdb' file found in archive '${source}'`, {
+                context: { source },
+            });
+        }
+        return database.data;
+    }
+    return isGzip(archive) ? zlib.gunzipSync(archive) : archive;
+}
+
+/**
+ * Install a GeoIP database from a URL or a local archive, and return the path it was installed to.
+ * The database is validated before it replaces the installed one.
+ */
+export async function installGeoIPDatabase(options: GeoIPInstallOptions) {
+    const installOptions = zodGeoIPInstallOptions.safeParse(options);
+    if (!installOptions.success) {
+        throw new OptionsValidationError(z.prettifyError(installOptions.error), installOptions.error.issues);
+    }
+    const { source, destination, sha256 } = installOptions.data;
+
+    const archive = await readSource(source);
+    if (sha256 && crypto.createHash("sha256").update(archive).digest("hex") !== sha256.toLowerCase()) {
+        throw new GeoIPDatabaseError(`GeoIP database error, Checksum mismatch for '${source}'`, {
+            context: { source },
+        });
+    }
+
+    const buffer = extractDatabase(archive, source);
+    const database = createDatabase(buffer, source);
+    checkDatabaseAge(database);
+
+    // The database type comes from the file itself, only the names the default lookup knows are written.
+    const fileName = `${database.reader.metadata.databaseType}.mmdb`;
+    const installableNames: readonly string[] = [...defaultGeoIPDatabaseNames, defaultASNDatabaseName];
+    if (!installableNames.includes(fileName)) {
+        throw new GeoIPDatabaseError(
+            `GeoIP database error, Can't install a '${database.reader.metadata.databaseType}' database, Only ${installableNames.map((name) => `'${name}'`).join(", ")} can be installed`,
+            { context: { source, databaseType: database.reader.metadata.databaseType } },
+        );
+    }
+
+    const installDirectory = path.resolve(destination ?? getGeoIPDirectory());
+    const databasePath = path.join(installDirectory, fileName);
+
+    // Write next to the target first, so a running launch never reads a half written database.
+    await fs.mkdir(installDirectory, { recursive: true });
+    const temporaryPath = `${databasePath}.${process.pid}.tmp`;
+    await fs.writeFile(temporaryPath, buffer);
+    await fs.rename(temporaryPath, databasePath);
+
+    return databasePath;
+}
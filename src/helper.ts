@@ -1,9 +1,140 @@
-export function addToConfig(
-    target: Record<string, string | number | boolean>,
+import { Buffer } from "node:buffer";
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import ky, { HTTPError } from "ky";
+import { DownloadError, FingerprintError } from "./errors";
+
+// Any JSON value Camoufox accepts in its config.
+export type ConfigValue = string | number | boolean | null | ConfigValue[] | { [key: string]: ConfigValue };
+
+// Where a config value came from, `detail` names the option or lookup that produced it.
+export type ConfigSource = "user" | "profile" | "publicIP" | "geoip" | "fingerprint" | "preset" | "default";
+export type ConfigOrigin = {
+    source: ConfigSource;
+    detail: string;
+};
+
+export type ConfigProvenance = {
+    origins: Record<string, ConfigOrigin>;
+    // Values that were added after the key was already set, and were dropped.
+    shadowed: (ConfigOrigin & { key: string; value: ConfigValue; shadowedBy: ConfigOrigin })[];
+};
+
+// Kept next to the config objects, so the order of precedence in `addToConfig` stays the only place values are set.
+const provenances = new WeakMap<object, ConfigProvenance>();
+
+export function getConfigProvenance(target: object) {
+    const provenance = provenances.get(target) ?? { origins: {}, shadowed: [] };
+    provenances.set(target, provenance);
+    return provenance;
+}
+
+/**
+ * Add a value to a config, unless the key is already set.
+ * The first value added for a key always wins, so values have to be added in order of precedence.
+ */
+export function addToConfig<T extends ConfigValue>(
+    target: Record<string, T>,
     key: string,
-    value: string | number | boolean,
+    value: T,
+    origin: ConfigOrigin,
 ) {
+    const provenance = getConfigProvenance(target);
+    const winningOrigin = provenance.origins[key];
+
     if (!(key in target)) {
         target[key] = value;
+        provenance.origins[key] = origin;
+    } else if (winningOrigin) {
+        provenance.shadowed.push({ key, value, ...origin, shadowedBy: winningOrigin });
+    }
+}
+
+export function addAllToConfig<T extends ConfigValue>(
+    target: Record<string, T>,
+    values: Record<string, T>,
+    origin: ConfigOrigin,
+) {
+    for (const [key, value] of Object.entries(values)) {
+        addToConfig(target, key, value, origin);
+    }
+}
+
+// Source of random numbers in `[0, 1)`, just like `Math.random`.
+export type RandomSource = () => number;
+
+// Range of the 32 bit unsigned integers read from each hash.
+export const uint32Range = 4_294_967_296;
+
+/**
+ * Create a source of random numbers.
+ * With a seed every sequence of random choices is reproducible, without one it's `Math.random`.
+ */
+export function createRandomSource(seed?: string | number): RandomSource {
+    if (seed === undefined) {
+        return Math.random;
     }
+
+    // Each number is drawn from the hash of the seed and a counter.
+    let counter = 0;
+    return () => {
+        counter += 1;
+        const hash = crypto.createHash("sha256").update(`${seed}:${counter}`).digest();
+        return hash.readUInt32LE(0) / uint32Range;
+    };
+}
+
+export function pickWeighted<T>(entries: readonly (readonly [T, number])[], random: RandomSource = Math.random) {
+    const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    let threshold = random() * totalWeight;
+
+    for (const [value, weight] of entries) {
+        threshold -= weight;
+        if (threshold < 0) {
+            return value;
+        }
+    }
+
+    // Floating point rounding can leave a tiny remainder, fall back to the last entry.
+    const lastEntry = entries.at(-1);
+    if (lastEntry === undefined) {
+        throw new FingerprintError("Random pick error, Cannot pick from an empty list");
+    }
+    return lastEntry[0];
+}
+
+const tooManyRequests = 429;
+const serverErrorStatus = 500;
+
+// Read a file from a URL or a local filepath.
+export async function readSource(source: string) {
+    if (/^https?:\/\//i.test(source)) {
+        try {
+            return Buffer.from(await ky.get(source, { retry: 0 }).arrayBuffer());
+        } catch (error) {
+            // Client errors won't go away on their own, while timeouts, network and server errors might.
+            const status = error instanceof HTTPError ? error.response.status : undefined;
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new DownloadError(`Download error, Failed to download '${source}', ${reason}`, {
+                context: { source, status },
+                retryable: status === undefined || status === tooManyRequests || status >= serverErrorStatus,
+                cause: error,
+            });
+        }
+    }
+    return fs.readFile(path.resolve(source));
+}
+
+/**
+ * Cache the entry of a pending lookup, so concurrent callers share it instead of starting their own.
+ * The entry is dropped again when the lookup fails, unless a newer entry has replaced it by then.
+ */
+export function cachePending<Key, Entry>(cache: Map<Key, Entry>, key: Key, entry: Entry, pending: Promise<unknown>) {
+    cache.set(key, entry);
+    pending.catch(() => {
+        if (cache.get(key) === entry) {
+            cache.delete(key);
+        }
+    });
 }
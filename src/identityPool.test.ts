@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { deserializeConfig } from "./configEnv";
+import { OptionsValidationError } from "./errors";
+import { createIdentityPool } from "./identityPool";
+
+describe("createIdentityPool", () => {
+    it("resolves one result per identity, in order, failing only the invalid ones", async () => {
+        const results = await createIdentityPool(
+            ["http://127.0.0.1:8080", "ftp://127.0.0.1:21", { server: "http://127.0.0.1:8081" }],
+            { concurrency: 2, defaults: { dryRun: true } },
+        );
+
+        expect(results.map(({ index, ok }) => [index, ok])).toEqual([
+            [0, true],
+            [1, false],
+            [2, true],
+        ]);
+        expect(results[1]).toMatchObject({ ok: false, error: expect.any(Error) });
+    });
+
+    it("launches proxies behind the defaults, with geoip unless the defaults turn it off", async () => {
+        const [withGeoIP, withoutGeoIP] = await Promise.all([
+            createIdentityPool(["http://127.0.0.1:8080"], { defaults: { dryRun: true, os: "macos" } }),
+            createIdentityPool(["http://127.0.0.1:8080"], { defaults: { dryRun: true, geoip: false } }),
+        ]);
+        const configOf = (result: (typeof withGeoIP)[number] | undefined) =>
+            result?.ok ? deserializeConfig(result.launchOptions.env as Record<string, string>) : {};
+
+        expect(configOf(withGeoIP[0])).toMatchObject({
+            "navigator.platform": "MacIntel",
+            timezone: "America/New_York",
+        });
+        expect(configOf(withoutGeoIP[0]).timezone).toBeUndefined();
+    });
+
+    it("never hands out the same fingerprint twice, even for the same seed", async () => {
+        const results = await createIdentityPool(
+            Array.from({ length: 5 }, () => ({ seed: "shared", os: "linux" as const })),
+            { defaults: { dryRun: true } },
+        );
+        const fingerprints = results.map((result) =>
+            result.ok ? JSON.stringify(deserializeConfig(result.launchOptions.env as Record<string, string>)) : "",
+        );
+
+        expect(new Set(fingerprints).size).toBe(5);
+    });
+
+    it("rejects invalid pool options", async () => {
+        await expect(createIdentityPool([], { concurrency: 0 })).rejects.toThrow(OptionsValidationError);
+        await expect(createIdentityPool([], { defaults: null as unknown as object })).rejects.toThrow(
+            OptionsValidationError,
+        );
+    });
+});
@@ -1 +1,60 @@
-export { type CamoufoxLaunchOptions, camoufoxLaunchOptions } from "./main";
+export { deserializeConfig, type EnvOptions, type EnvReport, serializeConfig } from "./configEnv";
+export type { ConsistencyOptions, ConsistencyRule } from "./consistency";
+export {
+    getContextOptions,
+    getPersistentContextOptions,
+    type PersistentContextOptions,
+    type PersistentContextOptionsInput,
+    removeUserDataDirectory,
+} from "./contextOptions";
+export {
+    AddonError,
+    ArchiveError,
+    CamoufoxError,
+    CamoufoxNotInstalledError,
+    ConfigError,
+    ConsistencyError,
+    DownloadError,
+    EnvironmentError,
+    FingerprintError,
+    GeoIPDatabaseError,
+    GeoIPLookupError,
+    InstallError,
+    OptionsValidationError,
+    ProfileError,
+    ProxyConfigError,
+    PublicIPResolutionError,
+    UnsupportedPlatformError,
+    VirtualDisplayError,
+} from "./errors";
+export {
+    clearGeoIPDatabaseCache,
+    type GeoIPInstallOptions,
+    installGeoIPDatabase,
+} from "./geoipDatabase";
+export type { ConfigOrigin, ConfigSource } from "./helper";
+export {
+    createIdentityPool,
+    type IdentityPoolOptions,
+    type IdentityPoolResult,
+    type IdentitySpec,
+} from "./identityPool";
+export { type CamoufoxAddon, type CamoufoxInfo, getCamoufoxInfo } from "./info";
+export {
+    type CamoufoxInstallOptions,
+    defaultReleaseURL,
+    installCamoufox,
+    removeCamoufoxVersion,
+} from "./install";
+export { type InstalledVersion, listCamoufoxVersions, whichCamoufox } from "./launchPath";
+export {
+    type CamoufoxLaunchOptions,
+    type CamoufoxLaunchResult,
+    camoufoxLaunchOptions,
+    createProfile,
+    type ExplainedValue,
+    type LaunchExplanation,
+} from "./main";
+export type { ResourcePreset, ResourceSwitch } from "./presetData";
+export { loadProfile, type Profile, saveProfile } from "./profile";
+export { clearPublicIPCache, type PublicIPOptions } from "./proxy";
@@ -0,0 +1,80 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { checkPlaywrightCompatibility, getCamoufoxInfo } from "./info";
+
+function getApplicationIni(firefoxVersion: string) {
+    return `[App]\nVendor=Mozilla\nName=Camoufox\nVersion=${firefoxVersion}\nBuildID=20250101000000\n\n[Gecko]\nMinVersion=1.0\n`;
+}
+
+describe("getCamoufoxInfo", () => {
+    let install: string;
+    let executablePath: string;
+
+    beforeAll(async () => {
+        install = await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-info-"));
+        // Every OS looks for its own executable name.
+        for (const executable of ["camoufox-bin", "camoufox", "camoufox.exe"]) {
+            await fs.writeFile(path.join(install, executable), "");
+        }
+        executablePath = path.join(install, "camoufox-bin");
+
+        await fs.writeFile(
+            path.join(install, "version.json"),
+            JSON.stringify({ version: "135.0.1", release: "beta.24" }),
+        );
+        await fs.mkdir(path.join(install, "addons", "UBO"), { recursive: true });
+        await fs.writeFile(path.join(install, "addons", "UBO", "manifest.json"), JSON.stringify({ version: "1.62.0" }));
+        await fs.mkdir(path.join(install, "fonts", "windows"), { recursive: true });
+        await fs.writeFile(path.join(install, "fonts", "windows", "arial.ttf"), "");
+        await fs.writeFile(path.join(install, "fonts", "README.txt"), "");
+        await fs.writeFile(path.join(install, "GeoLite2-City.mmdb"), "");
+    });
+
+    afterAll(async () => {
+        await fs.rm(install, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("reads the version metadata and lists the add-ons, fonts and databases", async () => {
+        await fs.writeFile(path.join(install, "application.ini"), getApplicationIni("135.0.1"));
+
+        expect(await getCamoufoxInfo({ executablePath })).toEqual({
+            executablePath,
+            version: "135.0.1-beta.24",
+            firefoxVersion: "135.0.1",
+            buildId: "20250101000000",
+            addons: [{ name: "UBO", path: path.join(install, "addons", "UBO"), version: "1.62.0" }],
+            fonts: [path.join(install, "fonts", "windows", "arial.ttf")],
+            geoipDatabases: [path.join(install, "GeoLite2-City.mmdb")],
+            playwright: { version: expect.any(String), compatible: true, supportedVersions: "1.51 to 1.55" },
+        });
+    });
+
+    it("reports an install whose Juggler protocol the installed playwright-core can't speak", async () => {
+        await fs.writeFile(path.join(install, "application.ini"), getApplicationIni("128.0"));
+
+        expect((await getCamoufoxInfo({ executablePath })).playwright).toMatchObject({
+            compatible: false,
+            supportedVersions: "1.46 to 1.48",
+        });
+        const emitWarning = vi.spyOn(process, "emitWarning").mockImplementation(() => undefined);
+        await expect(checkPlaywrightCompatibility(executablePath)).resolves.toBeUndefined();
+        expect(emitWarning).toHaveBeenCalledWith(
+            expect.stringMatching(/^Camoufox on Firefox 128.0 may not be drivable by playwright-core/),
+            { code: "CAMOUFOX_INCOMPATIBLE_PLAYWRIGHT" },
+        );
+    });
+
+    it("assumes builds missing from the compatibility table are compatible", async () => {
+        await fs.rm(path.join(install, "application.ini"));
+
+        expect((await getCamoufoxInfo({ executablePath })).playwright.compatible).toBeUndefined();
+        await expect(checkPlaywrightCompatibility(executablePath)).resolves.toBeUndefined();
+    });
+});
@@ -0,0 +1,200 @@
+import fs from "node:fs/promises";
+import { createRequire } from "node:module";
+import path from "node:path";
+import process from "node:process";
+import { jugglerCompatibility } from "./compatibilityData";
+import { findDefaultGeoIPDatabases } from "./geoipDatabase";
+import { getInstallDirectories, launchPath } from "./launchPath";
+
+const fontExtensions = /\.(?:ttf|otf|ttc|woff2?)$/i;
+
+export type CamoufoxAddon = {
+    name: string;
+    path: string;
+    version?: string;
+};
+
+export type CamoufoxInfo = {
+    executablePath: string;
+    // Camoufox release, as written to `version.json` by the installer.
+    version?: string;
+    // Firefox version and build ID from `application.ini`.
+    firefoxVersion?: string;
+    buildId?: string;
+    addons: CamoufoxAddon[];
+    fonts: string[];
+    geoipDatabases: string[];
+    playwright: {
+        version?: string;
+        // `undefined` when the combination isn't in the compatibility table.
+        compatible?: boolean;
+        supportedVersions?: string;
+    };
+};
+
+async function readFirstFile(directories: string[], fileName: string) {
+    for (const directory of directories) {
+        const contents = await fs.readFile(path.join(directory, fileName), "utf8").catch(() => undefined);
+        if (contents !== undefined) {
+            return contents;
+        }
+    }
+    return undefined;
+}
+
+// Only the `[App]` section of `application.ini` is of interest.
+function parseApplicationIni(contents: string) {
+    const values: Record<string, string> = {};
+    let section = "";
+    for (const line of contents.split(/\r?\n/)) {
+        const sectionMatch = /^\s*\[(.+)\]\s*$/.exec(line);
+        if (sectionMatch?.[1]) {
+            section = sectionMatch[1];
+            continue;
+        }
+        const valueMatch = /^\s*([^=;#]+?)\s*=\s*(.*?)\s*$/.exec(line);
+        if (section === "App" && valueMatch?.[1] && valueMatch[2] !== undefined) {
+            values[valueMatch[1]] = valueMatch[2];
+        }
+    }
+    return values;
+}
+
+function parseVersionJson(contents: string | undefined) {
+    try {
+        const { version, release } = JSON.parse(contents ?? "") as { version?: unknown; release?: unknown };
+        if (typeof version !== "string") {
+            return undefined;
+        }
+        return typeof release === "string" && release.length > 0 ? `${version}-${release}` : version;
+    } catch {
+        return undefined;
+    }
+}
+
+async function getInstallMetadata(executablePath: string) {
+    const directories = getInstallDirectories(executablePath);
+    const applicationIni = parseApplicationIni((await readFirstFile(directories, "application.ini")) ?? "");
+
+    return {
+        version: parseVersionJson(await readFirstFile(directories, "version.json")),
+        firefoxVersion: applicationIni.Version,
+        buildId: applicationIni.BuildID,
+    };
+}
+
+async function listAddons(directories: string[]) {
+    const addons = [] as CamoufoxAddon[];
+    for (const directory of directories) {
+        const addonsDirectory = path.join(directory, "addons");
+        const entries = await fs.readdir(addonsDirectory, { withFileTypes: true }).catch(() => []);
+
+        for (const entry of entries.filter((addonEntry) => addonEntry.isDirectory())) {
+            const addonPath = path.join(addonsDirectory, entry.name);
+            const manifest = await fs.readFile(path.join(addonPath, "manifest.json"), "utf8").catch(() => undefined);
+            if (manifest === undefined) {
+                continue;
+            }
+
+            let version: unknown;
+            try {
+                version = (JSON.parse(manifest) as { version?: unknown }).version;
+            } catch {
+                version = undefined;
+            }
+            addons.push({ name: entry.name, path: addonPath, ...(typeof version === "string" && { version }) });
+        }
+    }
+    return addons;
+}
+
+export async function listFonts(directories: string[]) {
+    const fonts = [] as string[];
+    for (const directory of directories) {
+        const fontsDirectory = path.join(directory, "fonts");
+        const entries = await fs.readdir(fontsDirectory, { recursive: true }).catch(() => []);
+        fonts.push(
+            ...entries.filter((entry) => fontExtensions.test(entry)).map((entry) => path.join(fontsDirectory, entry)),
+        );
+    }
+    return fonts.sort();
+}
+
+function getPlaywrightVersion() {
+    try {
+        const require = createRequire(import.meta.url);
+        return (require("playwright-core/package.json") as { version: string }).version;
+    } catch {
+        return undefined;
+    }
+}
+
+function getVersionPart(version: string | undefined, part: 0 | 1) {
+    const number = Number.parseInt(version?.split(".")[part] ?? "", 10);
+    return Number.isNaN(number) ? undefined : number;
+}
+
+function checkJugglerCompatibility(firefoxVersion: string | undefined, playwrightVersion: string | undefined) {
+    const firefoxMajor = getVersionPart(firefoxVersion, 0);
+    const playwrightMinor = getVersionPart(playwrightVersion, 1);
+
+    const firefoxEntry = jugglerCompatibility.find(
+        ({ firefox }) => firefoxMajor !== undefined && firefoxMajor >= firefox[0] && firefoxMajor <= firefox[1],
+    );
+    const playwrightEntry = jugglerCompatibility.find(
+        ({ playwright }) =>
+            playwrightMinor !== undefined && playwrightMinor >= playwright[0] && playwrightMinor <= playwright[1],
+    );
+    if (firefoxEntry === undefined || playwrightEntry === undefined) {
+        return { compatible: undefined, supportedVersions: undefined };
+    }
+
+    return {
+        compatible: firefoxEntry === playwrightEntry,
+        supportedVersions: `1.${firefoxEntry.playwright[0]} to 1.${firefoxEntry.playwright[1]}`,
+    };
+}
+
+/**
+ * Warn when the installed playwright-core can't drive the Camoufox build,
+ * a Juggler protocol mismatch makes `firefox.launch` hang instead of failing.
+ * Only a warning, the compatibility table can lag behind new releases.
+ */
+export async function checkPlaywrightCompatibility(executablePath: string) {
+    const { firefoxVersion } = await getInstallMetadata(executablePath);
+    const playwrightVersion = getPlaywrightVersion();
+    const { compatible, supportedVersions } = checkJugglerCompatibility(firefoxVersion, playwrightVersion);
+
+    if (compatible === false) {
+        process.emitWarning(
+            `Camoufox on Firefox ${firefoxVersion} may not be drivable by playwright-core ${playwrightVersion}, Install playwright-core ${supportedVersions} or a matching Camoufox version if the launch hangs`,
+            { code: "CAMOUFOX_INCOMPATIBLE_PLAYWRIGHT" },
+        );
+    }
+}
+
+/**
+ * Describe the Camoufox install that would be launched, or the given one.
+ */
+export async function getCamoufoxInfo({
+    executablePath,
+    version,
+}: {
+    executablePath?: string;
+    version?: string;
+} = {}): Promise<CamoufoxInfo> {
+    const validatedExecutablePath = await launchPath(executablePath, version);
+    const directories = getInstallDirectories(validatedExecutablePath);
+    const metadata = await getInstallMetadata(validatedExecutablePath);
+    const playwrightVersion = getPlaywrightVersion();
+    const { compatible, supportedVersions } = checkJugglerCompatibility(metadata.firefoxVersion, playwrightVersion);
+
+    return {
+        executablePath: validatedExecutablePath,
+        ...metadata,
+        addons: await listAddons(directories),
+        fonts: await listFonts(directories),
+        geoipDatabases: await findDefaultGeoIPDatabases(validatedExecutablePath).catch(() => []),
+        playwright: { version: playwrightVersion, compatible, supportedVersions },
+    };
+}
@@ -0,0 +1,234 @@
+import { Buffer } from "node:buffer";
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import zlib from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { InstallError } from "./errors";
+import { installCamoufox, removeCamoufoxVersion } from "./install";
+import { getVersionsDirectory, launchPath, listCamoufoxVersions } from "./launchPath";
+
+type TestEntry = { path: string; data?: string; linkTarget?: string };
+
+const unixRegularFile = 0o100_644;
+const unixSymlink = 0o120_777;
+
+// A stored zip made on Unix, the way releases keep their symbolic links.
+function createZip(entries: TestEntry[]) {
+    const localRecords = [] as Buffer[];
+    const centralRecords = [] as Buffer[];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.path);
+        const data = Buffer.from(entry.linkTarget ?? entry.data ?? "");
+        const crc = zlib.crc32(data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        localRecords.push(local, name, data);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(3 * 256 + 20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE((entry.linkTarget === undefined ? unixRegularFile : unixSymlink) * 65_536, 38);
+        central.writeUInt32LE(offset, 42);
+        centralRecords.push(central, name);
+
+        offset += local.length + name.length + data.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralRecords);
+    const endRecord = Buffer.alloc(22);
+    endRecord.writeUInt32LE(0x06054b50, 0);
+    endRecord.writeUInt16LE(entries.length, 8);
+    endRecord.writeUInt16LE(entries.length, 10);
+    endRecord.writeUInt32LE(centralDirectory.length, 12);
+    endRecord.writeUInt32LE(offset, 16);
+    return Buffer.concat([...localRecords, centralDirectory, endRecord]);
+}
+
+// Every OS looks for its own executable name.
+const executables = ["camoufox-bin", "camoufox", "camoufox.exe"].map((name) => ({
+    path: `camoufox/${name}`,
+    data: "",
+}));
+
+describe.skipIf(process.platform === "win32")("installCamoufox", () => {
+    let home: string;
+
+    beforeEach(async () => {
+        home = await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-install-"));
+        vi.stubEnv("HOME", home);
+    });
+
+    afterEach(async () => {
+        vi.unstubAllEnvs();
+        await fs.rm(home, { recursive: true, force: true });
+    });
+
+    async function install(entries: TestEntry[]) {
+        const source = path.join(home, "release.zip");
+        await fs.writeFile(source, createZip([...executables, ...entries]));
+        return installCamoufox({ source, version: "135.0.1-beta.24" });
+    }
+
+    it("installs files and symbolic links that stay inside the install", async () => {
+        const { executablePath } = await install([
+            { path: "camoufox/lib/libxul.so.1", data: "xul" },
+            { path: "camoufox/libxul.so", linkTarget: "lib/libxul.so.1" },
+        ]);
+
+        const installRoot = path.dirname(executablePath);
+        expect(installRoot).toBe(path.join(getVersionsDirectory(), "135.0.1-beta.24"));
+        expect(await fs.readFile(path.join(installRoot, "libxul.so"), "utf8")).toBe("xul");
+        expect(await fs.readlink(path.join(installRoot, "libxul.so"))).toBe("lib/libxul.so.1");
+    });
+
+    it("rejects entries outside of the install directory", async () => {
+        await expect(install([{ path: "camoufox/../../escaped.txt", data: "" }])).rejects.toThrow(InstallError);
+        await expect(fs.access(path.join(getVersionsDirectory(), "escaped.txt"))).rejects.toThrow();
+    });
+
+    it("rejects symbolic links that point up or to an absolute path", async () => {
+        await expect(install([{ path: "camoufox/etc", linkTarget: "/etc" }])).rejects.toThrow(InstallError);
+        await expect(install([{ path: "camoufox/up", linkTarget: "lib/../.." }])).rejects.toThrow(InstallError);
+    });
+
+    it("never writes through a symbolic link chain that climbs out of the install", async () => {
+        const installation = install([
+            { path: "d/e/a2", linkTarget: ".." },
+            { path: "x", linkTarget: "d/e/a2/../../../versions" },
+            { path: "x/pwned.txt", data: "pwned" },
+        ]);
+
+        await expect(installation).rejects.toThrow(InstallError);
+        await expect(fs.access(path.join(getVersionsDirectory(), "pwned.txt"))).rejects.toThrow();
+        expect(await fs.readdir(getVersionsDirectory())).toEqual([]);
+    });
+
+    it("refuses a file with the wrong checksum", async () => {
+        const source = path.join(home, "release.zip");
+        await fs.writeFile(source, createZip(executables));
+
+        await expect(installCamoufox({ source, version: "135.0.1-beta.24", sha256: "0".repeat(64) })).rejects.toThrow(
+            /Checksum mismatch/,
+        );
+        expect(await listCamoufoxVersions()).toEqual([]);
+    });
+
+    it("makes the executable runnable, whatever mode the archive gave it", async () => {
+        const { executablePath } = await install([]);
+        expect((await fs.stat(executablePath)).mode % 0o1000).toBe(0o755);
+    });
+
+    it("tells the version from the release file name and writes version.json", async () => {
+        const source = path.join(home, "camoufox-135.0.1-beta.24-lin.x86_64.zip");
+        await fs.writeFile(source, createZip(executables));
+
+        const { version, executablePath } = await installCamoufox({ source });
+
+        expect(version).toBe("135.0.1-beta.24");
+        expect(JSON.parse(await fs.readFile(path.join(path.dirname(executablePath), "version.json"), "utf8"))).toEqual({
+            version: "135.0.1",
+            release: "beta.24",
+        });
+    });
+
+    it("keeps versions side by side, pins one and removes it", async () => {
+        const source = path.join(home, "release.zip");
+        await fs.writeFile(source, createZip(executables));
+        await installCamoufox({ source, version: "135.0.1-beta.9" });
+        const { executablePath } = await installCamoufox({ source, version: "135.0.1-beta.24" });
+
+        expect((await listCamoufoxVersions()).map(({ version }) => version)).toEqual([
+            "135.0.1-beta.9",
+            "135.0.1-beta.24",
+        ]);
+        expect(await launchPath(undefined, "135.0.1-beta.24")).toBe(executablePath);
+
+        await removeCamoufoxVersion("135.0.1-beta.24");
+        await expect(launchPath(undefined, "135.0.1-beta.24")).rejects.toThrow(/Installed versions: 135.0.1-beta.9/);
+        await expect(removeCamoufoxVersion("135.0.1-beta.24")).rejects.toThrow(/is not installed/);
+    });
+});
+
+describe.skipIf(process.platform === "win32")("installCamoufox downloads", () => {
+    const release = createZip(executables);
+    const sha256 = crypto.createHash("sha256").update(release).digest("hex");
+    const realFetch = globalThis.fetch;
+    let home: string;
+    let server: http.Server;
+    let serverURL: string;
+
+    beforeEach(async () => {
+        home = await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-install-"));
+        vi.stubEnv("HOME", home);
+
+        server = http.createServer((request, response) => {
+            if (request.url === "/camoufox-135.0.1-beta.24-lin.x86_64.zip") {
+                response.end(release);
+            } else {
+                response.writeHead(404).end();
+            }
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        serverURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        vi.unstubAllEnvs();
+        vi.unstubAllGlobals();
+        await new Promise((resolve) => server.close(resolve));
+        await fs.rm(home, { recursive: true, force: true });
+    });
+
+    it("downloads a release and verifies it against the given checksum", async () => {
+        const source = `${serverURL}/camoufox-{version}-lin.x86_64.zip`;
+
+        await expect(installCamoufox({ source, version: "135.0.1-beta.24" })).rejects.toThrow(
+            /No checksum is published/,
+        );
+        await expect(installCamoufox({ source, version: "135.0.1-beta.24", sha256: "0".repeat(64) })).rejects.toThrow(
+            /Checksum mismatch/,
+        );
+
+        const { executablePath } = await installCamoufox({ source, version: "135.0.1-beta.24", sha256 });
+        expect(executablePath).toBe(path.join(getVersionsDirectory(), "135.0.1-beta.24", "camoufox-bin"));
+    });
+
+    it("verifies a GitHub release against the digest GitHub publishes for it", async () => {
+        const source =
+            "https://github.com/daijro/camoufox/releases/download/v135.0.1-beta.24/camoufox-135.0.1-beta.24-lin.x86_64.zip";
+        let digest = `sha256:${sha256}`;
+        // GitHub is served by the local server, and its API by the digest above.
+        vi.stubGlobal("fetch", (request: Request) => {
+            if (request.url.startsWith("https://api.github.com/repos/daijro/camoufox/releases/tags/v135.0.1-beta.24")) {
+                return Promise.resolve(
+                    Response.json({ assets: [{ name: "camoufox-135.0.1-beta.24-lin.x86_64.zip", digest }] }),
+                );
+            }
+            return realFetch(request.url.replace(/^.*\//, `${serverURL}/`));
+        });
+
+        const { version } = await installCamoufox({ source });
+        expect(version).toBe("135.0.1-beta.24");
+
+        digest = `sha256:${"0".repeat(64)}`;
+        await expect(installCamoufox({ source })).rejects.toThrow(/Checksum mismatch/);
+    });
+});
@@ -0,0 +1,260 @@
+import type { Buffer } from "node:buffer";
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import { z } from "zod/v4/mini";
+import { isZip, readZipEntries, type ZipEntry } from "./archive";
+import { CamoufoxNotInstalledError, InstallError, OptionsValidationError } from "./errors";
+import { readSource } from "./helper";
+import { findExecutable, getVersionsDirectory, osName } from "./launchPath";
+
+// Must start with a digit and can't contain path separators, so a version never escapes the versions directory.
+export const zodCamoufoxVersion = z.string().check(z.regex(/^\d[\w.+-]*$/, "Invalid Camoufox version"));
+
+/**
+ * URL Camoufox releases are downloaded from by default.
+ * `{version}`, `{os}` and `{arch}` are replaced with the requested version and the current platform.
+ */
+export const defaultReleaseURL =
+    "https://github.com/daijro/camoufox/releases/download/v{version}/camoufox-{version}-{os}.{arch}.zip";
+
+const releaseOSNames = { win32: "win", darwin: "mac", linux: "lin" } as const;
+const releaseArchNames: Partial<Record<NodeJS.Architecture, string>> = { x64: "x86_64", arm64: "arm64", ia32: "i686" };
+
+const defaultFileMode = 0o644;
+const executableFileMode = 0o755;
+
+// GitHub publishes the SHA-256 digest of every release asset, like `sha256:<hex>`.
+const githubReleaseAssetURL = /^https:\/\/github\.com\/([^/]+)\/([^/]+)\/releases\/download\/([^/]+)\/([^/]+)$/;
+const zodGitHubRelease = z.object({
+    assets: z.array(z.object({ name: z.string(), digest: z.optional(z.nullable(z.string())) })),
+});
+
+export const zodCamoufoxInstallOptions = z.strictObject({
+    /**
+     * URL or local filepath of the release zip to install.
+     * URLs may contain `{version}`, `{os}` and `{arch}` placeholders.
+     * Defaults to the official GitHub release for `version`.
+     */
+    source: z.optional(z.string()),
+    /**
+     * Version to install the release as, for example `"135.0.1-beta.24"`.
+     * Defaults to the version in the release file name.
+     */
+    version: z.optional(zodCamoufoxVersion),
+    /**
+     * Expected SHA-256 checksum of the release zip, as hex.
+     * Defaults to the digest GitHub publishes for a release asset, downloads from anywhere else need one.
+     * Local files are only verified when it's given.
+     */
+    sha256: z.optional(z.string().check(z.regex(z.regexes.sha256_hex))),
+});
+export type CamoufoxInstallOptions = z.infer<typeof zodCamoufoxInstallOptions>;
+
+function getReleaseSource(source: string | undefined, version: string | undefined) {
+    const template = source ?? defaultReleaseURL;
+    if (template.includes("{version}") && version === undefined) {
+        throw new OptionsValidationError("Install error, A 'version' is required to download a release");
+    }
+
+    const arch = releaseArchNames[process.arch];
+    if (template.includes("{arch}") && arch === undefined) {
+        throw new InstallError(`Install error, No Camoufox releases for the '${process.arch}' architecture`, {
+            context: { arch: process.arch },
+        });
+    }
+
+    return template
+        .replaceAll("{version}", version ?? "")
+        .replaceAll("{os}", releaseOSNames[osName])
+        .replaceAll("{arch}", arch ?? "");
+}
+
+// Release files are named like `camoufox-135.0.1-beta.24-lin.x86_64.zip`.
+function getVersionFromSource(source: string) {
+    const fileName = path.basename(new URL(source, "file:///").pathname);
+    const version = /^camoufox-(\d[\w.+-]*?)-(?:win|mac|lin)\./i.exec(fileName)?.[1];
+
+    if (version === undefined || !zodCamoufoxVersion.safeParse(version).success) {
+        throw new OptionsValidationError(
+            `Install error, Can't tell the version of '${source}' from its name, Pass a 'version'`,
+        );
+    }
+    return version;
+}
+
+// Look up the digest GitHub published for a release asset, if the source is one.
+async function getPublishedChecksum(source: string) {
+    const [, owner, repository, tag, assetName] = githubReleaseAssetURL.exec(source) ?? [];
+    if (assetName === undefined) {
+        return undefined;
+    }
+
+    const response = await readSource(`https://api.github.com/repos/${owner}/${repository}/releases/tags/${tag}`);
+    let release: unknown;
+    try {
+        release = JSON.parse(response.toString("utf8"));
+    } catch {
+        return undefined;
+    }
+    const parsedRelease = zodGitHubRelease.safeParse(release);
+    const digest = parsedRelease.success
+        ? parsedRelease.data.assets.find(({ name }) => name === decodeURIComponent(assetName))?.digest
+        : undefined;
+    return digest?.startsWith("sha256:") ? digest.slice("sha256:".length) : undefined;
+}
+
+function throwOutsideEntry(entry: ZipEntry): never {
+    throw new InstallError(`Install error, Archive entry '${entry.path}' points outside of the install directory`, {
+        context: { entry: entry.path },
+    });
+}
+
+function isInside(directory: string, target: string) {
+    return target.startsWith(`${directory}${path.sep}`);
+}
+
+// Refuse entries, and symbolic links, that would write outside of the directory being extracted to.
+// Links may only point down, a `..` could climb out through another link, whatever the target looks like lexically.
+function getEntryPath(directory: string, entry: ZipEntry, data: Buffer) {
+    const entryPath = path.resolve(directory, entry.path);
+    if (!isInside(directory, entryPath)) {
+        throwOutsideEntry(entry);
+    }
+
+    const linkTarget = entry.isSymlink ? data.toString("utf8") : undefined;
+    if (linkTarget !== undefined && (path.isAbsolute(linkTarget) || linkTarget.split(/[\\/]/).includes(".."))) {
+        throwOutsideEntry(entry);
+    }
+    return entryPath;
+}
+
+// Follow every link on the way to the entry's directory, it must still be inside the directory being extracted to.
+async function checkRealParent(directory: string, entryPath: string, entry: ZipEntry) {
+    const realDirectory = await fs.realpath(directory);
+    const realParent = await fs.realpath(path.dirname(entryPath));
+    if (realParent !== realDirectory && !isInside(realDirectory, realParent)) {
+        throwOutsideEntry(entry);
+    }
+}
+
+async function extractRelease(archive: Buffer, directory: string) {
+    // Symbolic links are created after every regular file, so no file is ever written through one.
+    // The archive is walked once per pass, and only the entry being written is decompressed.
+    for (const symlinkPass of [false, true]) {
+        for (const entry of readZipEntries(archive)) {
+            if (entry.isSymlink !== symlinkPass) {
+                continue;
+            }
+            const data = entry.readData();
+            const entryPath = getEntryPath(directory, entry, data);
+            await fs.mkdir(path.dirname(entryPath), { recursive: true });
+            await checkRealParent(directory, entryPath, entry);
+
+            if (entry.isSymlink) {
+                await fs.symlink(data.toString("utf8"), entryPath);
+            } else {
+                await fs.writeFile(entryPath, data, { mode: entry.mode || defaultFileMode });
+            }
+        }
+    }
+
+    // Releases are zipped either at their root, or inside a single top level directory.
+    const topLevelEntries = await fs.readdir(directory, { withFileTypes: true });
+    const [topLevelEntry] = topLevelEntries;
+    const installRoot =
+        topLevelEntries.length === 1 && topLevelEntry?.isDirectory() === true && !(await findExecutable(directory))
+            ? path.join(directory, topLevelEntry.name)
+            : directory;
+
+    const executablePath = await findExecutable(installRoot);
+    if (executablePath === undefined) {
+        return undefined;
+    }
+    // Zips made off Unix carry no permission bits, and the executable must stay runnable either way.
+    await fs.chmod(executablePath, executableFileMode);
+    return { installRoot, executable: path.relative(installRoot, executablePath) };
+}
+
+/**
+ * Install a Camoufox release from a URL or a local zip, next to the versions already installed.
+ * The release is unpacked and checked before it replaces an install of the same version.
+ */
+export async function installCamoufox(options: CamoufoxInstallOptions = {}) {
+    const installOptions = zodCamoufoxInstallOptions.safeParse(options);
+    if (!installOptions.success) {
+        throw new OptionsValidationError(z.prettifyError(installOptions.error), installOptions.error.issues);
+    }
+
+    const source = getReleaseSource(installOptions.data.source, installOptions.data.version);
+    const version = installOptions.data.version ?? getVersionFromSource(source);
+    const isDownload = /^https?:\/\//i.test(source);
+    const sha256 = installOptions.data.sha256 ?? (isDownload ? await getPublishedChecksum(source) : undefined);
+    if (isDownload && sha256 === undefined) {
+        throw new InstallError(`Install error, No checksum is published for '${source}', Pass a 'sha256'`, {
+            context: { source },
+        });
+    }
+
+    const archive = await readSource(source);
+    if (sha256 !== undefined && crypto.createHash("sha256").update(archive).digest("hex") !== sha256.toLowerCase()) {
+        throw new InstallError(`Install error, Checksum mismatch for '${source}'`, { context: { source } });
+    }
+    if (!isZip(archive)) {
+        throw new InstallError(`Install error, '${source}' is not a zip archive`, { context: { source } });
+    }
+
+    // Unpack into a dot directory first, so a half unpacked release is never listed or launched.
+    const versionsDirectory = getVersionsDirectory();
+    const versionDirectory = path.join(versionsDirectory, version);
+    const temporaryDirectory = path.join(versionsDirectory, `.${version}.${process.pid}.tmp`);
+    await fs.mkdir(versionsDirectory, { recursive: true });
+
+    let executable: string;
+    try {
+        await fs.rm(temporaryDirectory, { recursive: true, force: true });
+        const extracted = await extractRelease(archive, temporaryDirectory);
+        if (extracted === undefined) {
+            throw new InstallError(`Install error, '${source}' doesn't contain a Camoufox build for this OS`, {
+                context: { source },
+            });
+        }
+        const { installRoot } = extracted;
+        executable = extracted.executable;
+
+        // Same metadata file as the official installer writes.
+        const [firefoxVersion, release] = version.split(/-(.*)/);
+        await fs.writeFile(
+            path.join(installRoot, "version.json"),
+            JSON.stringify({ version: firefoxVersion, release }),
+        );
+
+        await fs.rm(versionDirectory, { recursive: true, force: true });
+        await fs.rename(installRoot, versionDirectory);
+    } finally {
+        await fs.rm(temporaryDirectory, { recursive: true, force: true });
+    }
+
+    return { version, executablePath: path.join(versionDirectory, executable) };
+}
+
+/**
+ * Remove a version installed by `installCamoufox`.
+ */
+export async function removeCamoufoxVersion(version: string) {
+    const validatedVersion = zodCamoufoxVersion.safeParse(version);
+    if (!validatedVersion.success) {
+        throw new OptionsValidationError(z.prettifyError(validatedVersion.error), validatedVersion.error.issues);
+    }
+
+    const versionDirectory = path.join(getVersionsDirectory(), validatedVersion.data);
+    try {
+        await fs.access(versionDirectory);
+    } catch {
+        throw new CamoufoxNotInstalledError(`Install error, Version '${version}' is not installed`, {
+            context: { version },
+        });
+    }
+    await fs.rm(versionDirectory, { recursive: true, force: true });
+}
@@ -1,72 +1,211 @@
+import type { Dirent } from "node:fs";
 import fs from "node:fs/promises";
 import os from "node:os";
-import path, { type ParsedPath } from "node:path";
+import path from "node:path";
 import process from "node:process";
 import { z } from "zod/v4/mini";
+import { CamoufoxNotInstalledError, OptionsValidationError, UnsupportedPlatformError } from "./errors";
 
 const nodePlatform = z
     .enum(["win32", "darwin", "linux"], { error: "Unsupported Operating System" })
     .safeParse(process.platform);
 
 if (!nodePlatform.success) {
-    throw new Error(z.prettifyError(nodePlatform.error));
+    throw new UnsupportedPlatformError(z.prettifyError(nodePlatform.error), {
+        context: { platform: process.platform },
+    });
 }
 
-const osName = nodePlatform.data;
+export const osName = nodePlatform.data;
 
-function getDefaultInstallDirectory() {
+// Directory Camoufox caches its installs in.
+function getCacheDirectory() {
     if (osName === "win32") {
         return path.join(os.homedir(), "AppData", "Local", "camoufox", "camoufox", "Cache");
     }
     if (osName === "darwin") {
-        const basePath = path.join(os.homedir(), "Library", "Caches", "camoufox");
-        return path.resolve(basePath, "Camoufox.app", "Contents", "Resources", "../MacOS");
+        return path.join(os.homedir(), "Library", "Caches", "camoufox");
     }
     if (osName === "linux") {
         return path.join(os.homedir(), ".cache", "camoufox");
     }
-    throw new Error("Unsupported Operating System");
+    throw new UnsupportedPlatformError("Unsupported Operating System", { context: { platform: osName } });
+}
+
+function getDefaultInstallDirectory() {
+    if (osName === "darwin") {
+        return path.resolve(getCacheDirectory(), "Camoufox.app", "Contents", "Resources", "../MacOS");
+    }
+    return getCacheDirectory();
 }
 const defaultInstall = getDefaultInstallDirectory();
 
+/**
+ * Directory holding every version installed by `installCamoufox`, each in its own `<version>` directory.
+ */
+export function getVersionsDirectory() {
+    return path.join(getCacheDirectory(), "versions");
+}
+
+/**
+ * Directory holding the managed user data directories of persistent contexts, each in its own `<name>` directory.
+ */
+export function getUserDataDirectory() {
+    return path.join(getCacheDirectory(), "user-data");
+}
+
+/**
+ * Directory `installGeoIPDatabase` installs to, searched for databases after the directories of the install.
+ */
+export function getGeoIPDirectory() {
+    return path.join(getCacheDirectory(), "geoip");
+}
+
+// Where the executable can be found inside an install directory.
 const camoufoxExecutable = {
-    win32: "camoufox.exe",
-    darwin: "camoufox",
-    linux: "camoufox-bin",
+    win32: ["camoufox.exe"],
+    darwin: ["camoufox", "Camoufox.app/Contents/MacOS/camoufox"],
+    linux: ["camoufox-bin"],
 } as const;
 
-async function validatedExecutablePath(directory: ParsedPath, executable: string) {
-    const parsedExecutable = path.resolve(directory.dir, executable);
+/**
+ * Directories of an install that can hold its files, like `addons`, `fonts` or `application.ini`, searched in order.
+ * On macOS the executable lives in `Camoufox.app/Contents/MacOS`, next to the `Resources` directory.
+ */
+export function getInstallDirectories(executablePath: string) {
+    const executableDirectory = path.dirname(executablePath);
+    if (osName === "darwin") {
+        return [
+            executableDirectory,
+            path.resolve(executableDirectory, "../Resources"),
+            path.resolve(executableDirectory, "../../.."),
+        ];
+    }
+    return [executableDirectory];
+}
+
+async function getStats(filePath: string) {
+    try {
+        return await fs.stat(filePath);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Find the Camoufox executable inside an install directory.
+ */
+export async function findExecutable(directory: string) {
+    for (const executable of camoufoxExecutable[osName]) {
+        const executablePath = path.resolve(directory, executable);
+        if ((await getStats(executablePath))?.isFile() === true) {
+            return executablePath;
+        }
+    }
+    return undefined;
+}
 
-    const fileStats = await fs.stat(parsedExecutable);
-    if (fileStats.isFile()) {
-        return parsedExecutable;
+// Takes either an install directory, or the executable itself.
+async function checkIfCamoufoxIsInstalled(install: string) {
+    const installStats = await getStats(install);
+
+    if (installStats?.isDirectory() === true) {
+        return findExecutable(install);
+    }
+    if (installStats?.isFile() === true) {
+        const executableNames = camoufoxExecutable[osName].map((executable) => path.basename(executable));
+        return executableNames.includes(path.basename(install)) ? path.resolve(install) : undefined;
     }
-    return false;
+    return undefined;
 }
 
-async function checkIfCamoufoxIsInstalled(directory: string) {
-    const parsedDirectory = path.parse(directory);
+export type InstalledVersion = {
+    version: string;
+    executablePath: string;
+};
 
-    const directoryStats = await fs.stat(parsedDirectory.dir);
-    if (directoryStats.isDirectory()) {
-        const executableValid = await validatedExecutablePath(parsedDirectory, camoufoxExecutable[osName]);
+/**
+ * List every version installed by `installCamoufox`, from oldest to newest.
+ */
+export async function listCamoufoxVersions() {
+    const versionsDirectory = getVersionsDirectory();
+    let directoryEntries: Dirent[];
+    try {
+        directoryEntries = await fs.readdir(versionsDirectory, { withFileTypes: true });
+    } catch {
+        return [];
+    }
 
-        if (executableValid) {
-            return executableValid;
+    const installedVersions = [] as InstalledVersion[];
+    for (const entry of directoryEntries) {
+        // Dot directories are installs still being unpacked.
+        if (!entry.isDirectory() || entry.name.startsWith(".")) {
+            continue;
+        }
+        const executablePath = await findExecutable(path.join(versionsDirectory, entry.name));
+        if (executablePath) {
+            installedVersions.push({ version: entry.name, executablePath });
         }
-        return false;
     }
-    return false;
+    return installedVersions.sort((first, second) =>
+        first.version.localeCompare(second.version, "en", { numeric: true }),
+    );
 }
 
-export async function launchPath(customInstall?: string) {
-    const camoufoxInstalled = customInstall
-        ? await checkIfCamoufoxIsInstalled(customInstall)
-        : await checkIfCamoufoxIsInstalled(defaultInstall);
+async function findInstalledVersion(version: string) {
+    const installedVersions = await listCamoufoxVersions();
+    const installedVersion = installedVersions.find((installed) => installed.version === version);
+
+    if (installedVersion === undefined) {
+        const available = installedVersions.map((installed) => installed.version).join(", ") || "none";
+        throw new CamoufoxNotInstalledError(
+            `Camoufox is Not Installed, Version '${version}' is not installed, Installed versions: ${available}`,
+            { context: { version, installedVersions: installedVersions.map((installed) => installed.version) } },
+        );
+    }
+    return installedVersion.executablePath;
+}
 
+/**
+ * Find the Camoufox executable to launch.
+ * Uses the custom install if given, otherwise the pinned version, otherwise the default install,
+ * and finally the newest version installed by `installCamoufox`.
+ */
+export async function launchPath(customInstall?: string, version?: string) {
+    if (customInstall && version) {
+        throw new OptionsValidationError("Launch path error, 'executablePath' and 'version' can't be used together");
+    }
+
+    if (customInstall) {
+        const camoufoxInstalled = await checkIfCamoufoxIsInstalled(customInstall);
+        if (camoufoxInstalled) {
+            return camoufoxInstalled;
+        }
+        throw new CamoufoxNotInstalledError(
+            `Camoufox is Not Installed, No Camoufox executable found at '${customInstall}'`,
+            {
+                context: { executablePath: customInstall },
+            },
+        );
+    }
+
+    if (version) {
+        return findInstalledVersion(version);
+    }
+
+    const camoufoxInstalled =
+        (await checkIfCamoufoxIsInstalled(defaultInstall)) ?? (await listCamoufoxVersions()).at(-1)?.executablePath;
     if (camoufoxInstalled) {
         return camoufoxInstalled;
     }
-    throw new Error("Camoufox is Not Installed");
+    throw new CamoufoxNotInstalledError("Camoufox is Not Installed, Install it with 'installCamoufox'", {
+        context: { executablePath: defaultInstall },
+    });
+}
+
+/**
+ * Report which Camoufox executable `camoufoxLaunchOptions` would launch with the same options.
+ */
+export function whichCamoufox({ executablePath, version }: { executablePath?: string; version?: string } = {}) {
+    return launchPath(executablePath, version);
 }
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { getLocaleConfig, zodLocale, zodTimezone } from "./locale";
+
+describe("getLocaleConfig", () => {
+    it("derives the language, region and Accept-Language header of a single locale", () => {
+        expect(getLocaleConfig("en-GB")).toEqual({
+            "locale:language": "en",
+            "locale:region": "GB",
+            "locale:all": "en-GB",
+            "headers.Accept-Language": "en-GB,en;q=0.5",
+        });
+    });
+
+    it("keeps the order of preference and drops duplicates", () => {
+        expect(getLocaleConfig(["fr_FR", "en-US", "fr-FR", "fr"])).toMatchObject({
+            "locale:language": "fr",
+            "locale:region": "FR",
+            "locale:all": "fr-FR, en-US, fr",
+            "headers.Accept-Language": "fr-FR,en-US;q=0.7,fr;q=0.3",
+        });
+    });
+
+    it("sets the script of the primary locale", () => {
+        expect(getLocaleConfig("zh-Hant-TW")).toMatchObject({ "locale:script": "Hant", "locale:region": "TW" });
+    });
+});
+
+describe("zodLocale", () => {
+    it("rejects invalid tags and empty lists", () => {
+        expect(zodLocale.safeParse("en-GB").success).toBe(true);
+        expect(zodLocale.safeParse("not a locale").success).toBe(false);
+        expect(zodLocale.safeParse([]).success).toBe(false);
+    });
+});
+
+describe("zodTimezone", () => {
+    it("only accepts IANA time zone names", () => {
+        expect(zodTimezone.safeParse("Europe/London").success).toBe(true);
+        expect(zodTimezone.safeParse("Mars/Olympus_Mons").success).toBe(false);
+    });
+});
@@ -0,0 +1,76 @@
+import { z } from "zod/v4/mini";
+import type { ConfigValue } from "./helper";
+
+function canonicalLocale(locale: string) {
+    // Accept POSIX style locales like `en_GB` as well.
+    const [canonical] = Intl.getCanonicalLocales(locale.trim().replaceAll("_", "-"));
+    return canonical;
+}
+
+function isValidLocale(locale: string) {
+    try {
+        return canonicalLocale(locale) !== undefined;
+    } catch {
+        return false;
+    }
+}
+
+function isValidTimezone(timezone: string) {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const zodSingleLocale = z.string().check(z.refine(isValidLocale, { error: "Invalid locale, Expected a BCP 47 tag" }));
+
+export const zodLocale = z.union([zodSingleLocale, z.array(zodSingleLocale).check(z.minLength(1))]);
+
+export const zodTimezone = z
+    .string()
+    .check(z.refine(isValidTimezone, { error: "Invalid timezone, Expected an IANA time zone name" }));
+
+/**
+ * Build an `Accept-Language` header value the way Firefox does, with evenly decreasing q-values.
+ */
+function getAcceptLanguage(locales: string[]) {
+    return locales
+        .map((locale, index) => {
+            if (index === 0) {
+                return locale;
+            }
+            const quality = 1 - index / locales.length;
+            return `${locale};q=${quality.toFixed(1)}`;
+        })
+        .join(",");
+}
+
+/**
+ * Derive the `locale:*` config and a matching `Accept-Language` header from one or more locales.
+ * The first locale is the primary one.
+ */
+export function getLocaleConfig(locale: string | string[]) {
+    const locales = [...new Set((Array.isArray(locale) ? locale : [locale]).map(canonicalLocale))].filter(
+        (canonical) => canonical !== undefined,
+    );
+
+    const primary = new Intl.Locale(locales[0] ?? "en-US");
+    const config: Record<string, ConfigValue> = {
+        "locale:language": primary.language,
+        "locale:all": locales.join(", "),
+    };
+    if (primary.region) {
+        config["locale:region"] = primary.region;
+    }
+    if (primary.script) {
+        config["locale:script"] = primary.script;
+    }
+
+    // Firefox always falls back to the base language of the primary locale.
+    const acceptLanguages = locales.includes(primary.language) ? locales : [...locales, primary.language];
+    config["headers.Accept-Language"] = getAcceptLanguage(acceptLanguages);
+
+    return config;
+}
@@ -0,0 +1,202 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { deserializeConfig } from "./configEnv";
+import { CamoufoxNotInstalledError, OptionsValidationError } from "./errors";
+import { camoufoxLaunchOptions, createProfile } from "./main";
+
+describe("camoufoxLaunchOptions", () => {
+    let install: string;
+    let executablePath: string;
+
+    beforeAll(async () => {
+        install = await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-main-"));
+        // Every OS looks for its own executable name.
+        for (const executable of ["camoufox-bin", "camoufox", "camoufox.exe"]) {
+            await fs.writeFile(path.join(install, executable), "");
+        }
+        executablePath = path.join(install, "camoufox-bin");
+    });
+
+    afterAll(async () => {
+        vi.unstubAllEnvs();
+        await fs.rm(install, { recursive: true, force: true });
+    });
+
+    it("passes the config to Camoufox as CAMOU_CONFIG_n chunks, without stale inherited chunks", async () => {
+        vi.stubEnv("CAMOU_CONFIG_9", "stale");
+        const launchOptions = await camoufoxLaunchOptions({ executablePath, humanize: 1.5 });
+
+        expect(launchOptions.env?.CAMOU_CONFIG_9).toBeUndefined();
+        expect(deserializeConfig(launchOptions.env as Record<string, string>)).toMatchObject({
+            humanize: true,
+            "humanize:maxTime": 1.5,
+        });
+    });
+
+    it("adds a fingerprint of the target OS", async () => {
+        const launchOptions = await camoufoxLaunchOptions({ executablePath, os: "macos" });
+        expect(deserializeConfig(launchOptions.env as Record<string, string>)).toMatchObject({
+            "navigator.platform": "MacIntel",
+        });
+    });
+
+    it("blocks WebGL through the Firefox pref instead of spoofing it", async () => {
+        const launchOptions = await camoufoxLaunchOptions({ executablePath, blockWebgl: true });
+        expect(launchOptions.firefoxUserPrefs).toMatchObject({ "webgl.disabled": true });
+        expect(deserializeConfig(launchOptions.env as Record<string, string>)["webGl:vendor"]).toBeUndefined();
+    });
+
+    it("lets the raw config and prefs win over derived values", async () => {
+        const launchOptions = await camoufoxLaunchOptions({
+            executablePath,
+            os: "macos",
+            blockWebgl: true,
+            config: { "navigator.platform": "Win32" },
+            firefoxUserPrefs: { "webgl.disabled": false },
+        });
+        expect(launchOptions.firefoxUserPrefs).toMatchObject({ "webgl.disabled": false });
+        expect(deserializeConfig(launchOptions.env as Record<string, string>)).toMatchObject({
+            "navigator.platform": "Win32",
+        });
+    });
+
+    it("sets a manual locale, timezone and geolocation without geoip", async () => {
+        const launchOptions = await camoufoxLaunchOptions({
+            executablePath,
+            locale: "en-GB",
+            timezone: "Europe/London",
+            geolocation: { latitude: 51.5072, longitude: -0.1276, accuracy: 100 },
+        });
+        expect(deserializeConfig(launchOptions.env as Record<string, string>)).toMatchObject({
+            "locale:all": "en-GB",
+            timezone: "Europe/London",
+            "geolocation:latitude": 51.5072,
+            "geolocation:longitude": -0.1276,
+            "geolocation:accuracy": 100,
+        });
+    });
+
+    it("generates the same fingerprint from the same seed", async () => {
+        const first = await camoufoxLaunchOptions({ executablePath, seed: "account-42" });
+        const second = await camoufoxLaunchOptions({ executablePath, seed: "account-42" });
+        const other = await camoufoxLaunchOptions({ executablePath, seed: "account-43" });
+
+        expect(second.env).toEqual(first.env);
+        expect(other.env).not.toEqual(first.env);
+    });
+
+    it("launches again with the identity stored in a profile", async () => {
+        const profile = await createProfile({ executablePath, os: "windows", timezone: "Europe/Berlin" });
+        expect(profile.inputs).toMatchObject({ os: "windows", timezone: "Europe/Berlin" });
+
+        const launchOptions = await camoufoxLaunchOptions({ executablePath, profile });
+        expect(deserializeConfig(launchOptions.env as Record<string, string>)).toEqual(profile.config);
+    });
+
+    it("isolates the browser environment and reports the dropped variables", async () => {
+        vi.stubEnv("CAMOUFOX_TEST_SECRET", "secret");
+        const onReport = vi.fn();
+        const launchOptions = await camoufoxLaunchOptions({
+            executablePath,
+            env: { inherit: ["PATH"], vars: { TZ: "UTC" }, onReport },
+        });
+
+        expect(launchOptions.env?.CAMOUFOX_TEST_SECRET).toBeUndefined();
+        expect(launchOptions.env?.TZ).toBe("UTC");
+        expect(onReport.mock.calls[0]?.[0].dropped).toContain("CAMOUFOX_TEST_SECRET");
+    });
+
+    it.runIf(process.platform === "linux")("runs a virtual display sized like the fingerprint", async () => {
+        // Stands in for Xvfb, and reports display 99.
+        const bin = path.join(install, "bin");
+        await fs.mkdir(bin, { recursive: true });
+        await fs.writeFile(path.join(bin, "Xvfb"), '#!/bin/sh\necho "$*" > "$0.args"\necho 99 >&3\nexec sleep 60\n', {
+            mode: 0o755,
+        });
+        vi.stubEnv("PATH", `${bin}${path.delimiter}${process.env.PATH}`);
+
+        await using launchOptions = await camoufoxLaunchOptions({ executablePath, headless: "virtual" });
+        const config = deserializeConfig(launchOptions.env as Record<string, string>);
+
+        expect(launchOptions.headless).toBe(false);
+        expect(launchOptions.env?.DISPLAY).toBe(":99");
+        expect(await fs.readFile(path.join(bin, "Xvfb.args"), "utf8")).toContain(
+            `-screen 0 ${config["screen.width"]}x${config["screen.height"]}x24`,
+        );
+    });
+
+    it("throws typed errors with a stable code", async () => {
+        const invalidOptions = camoufoxLaunchOptions({ executablePath, os: "amiga" as "linux" });
+        await expect(invalidOptions).rejects.toThrow(OptionsValidationError);
+        await expect(invalidOptions).rejects.toMatchObject({
+            code: "CAMOUFOX_INVALID_OPTIONS",
+            retryable: false,
+            issues: [expect.objectContaining({ path: ["os"] })],
+        });
+
+        await expect(camoufoxLaunchOptions({ executablePath: path.join(install, "missing") })).rejects.toThrow(
+            CamoufoxNotInstalledError,
+        );
+    });
+
+    it("explains where every value came from, without an install or network in a dry run", async () => {
+        const launchOptions = await camoufoxLaunchOptions({
+            dryRun: true,
+            explain: true,
+            geoip: true,
+            seed: 1,
+            timezone: "Europe/Paris",
+        });
+        const explanation = launchOptions.explanation;
+
+        expect(launchOptions.executablePath).toBe("camoufox");
+        expect(explanation?.dryRun).toBe(true);
+        expect(explanation?.config["webrtc:ipv4"]).toEqual({
+            source: "publicIP",
+            detail: "dryRun.publicIP",
+            value: "203.0.113.1",
+        });
+        expect(explanation?.config["geolocation:latitude"]).toMatchObject({ source: "geoip", value: 40.7128 });
+        expect(explanation?.config.timezone).toEqual({ source: "user", detail: "timezone", value: "Europe/Paris" });
+        expect(explanation?.shadowed).toContainEqual({
+            target: "config",
+            key: "timezone",
+            value: "America/New_York",
+            source: "geoip",
+            detail: "dryRun.geoip",
+            shadowedBy: { source: "user", detail: "timezone" },
+        });
+    });
+
+    it("names the network of the public IP in the explanation of the geoip values", async () => {
+        const launchOptions = await camoufoxLaunchOptions({
+            dryRun: { geoip: { countryCode: "GB", asn: { number: 64_500, organization: "Example Hosting" } } },
+            explain: true,
+            geoip: true,
+        });
+
+        expect(launchOptions.explanation?.config["locale:all"]).toMatchObject({
+            source: "geoip",
+            detail: "dryRun.geoip, AS64500 Example Hosting",
+        });
+    });
+
+    it("leaves the add-ons of the install unchecked in a dry run, and lists what it skipped", async () => {
+        const launchOptions = await camoufoxLaunchOptions({ dryRun: true, explain: true, addons: ["missing-addon"] });
+
+        expect(deserializeConfig(launchOptions.env as Record<string, string>).addons).toEqual([
+            path.resolve("missing-addon"),
+        ]);
+        expect(launchOptions.explanation?.skipped).toEqual(["would add default addons: UBO"]);
+    });
+
+    it("only attaches the explanation when asked to, and never as an enumerable property", async () => {
+        const launchOptions = await camoufoxLaunchOptions({ dryRun: true, explain: true });
+
+        expect(Object.keys(launchOptions)).not.toContain("explanation");
+        expect((await camoufoxLaunchOptions({ dryRun: true })).explanation).toBeUndefined();
+    });
+});
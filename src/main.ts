@@ -1,135 +1,288 @@
-import process from "node:process";
+import path from "node:path";
 import type { LaunchOptions as PlaywrightLaunchOptions } from "playwright-core";
 import { z } from "zod/v4/mini";
-import { getGeolocationAndLocale } from "./geoData";
-import { addToConfig } from "./helper";
+import { defaultAddons, getAddonPaths, zodDefaultAddon } from "./addons";
+import { buildLaunchEnv, zodEnvOptions } from "./configEnv";
+import { validateConfigProperties } from "./configProperties";
+import { checkConsistency, zodConsistencyOptions } from "./consistency";
+import { ConfigError, FingerprintError, OptionsValidationError } from "./errors";
+import { generateFingerprint, zodScreenConstraints, zodTargetOS, zodWindowSize } from "./fingerprint";
+import { addFontsToConfig, addVoicesToConfig, listInstalledFontFamilies, zodCustomFonts } from "./fonts";
+import { getGeolocationAndLocale, zodGeolocation } from "./geoData";
+import { zodGeoIPDatabase } from "./geoipDatabase";
+import {
+    addAllToConfig,
+    addToConfig,
+    type ConfigOrigin,
+    type ConfigProvenance,
+    type ConfigValue,
+    createRandomSource,
+    getConfigProvenance,
+} from "./helper";
+import { checkPlaywrightCompatibility } from "./info";
+import { zodCamoufoxVersion } from "./install";
 import { launchPath } from "./launchPath";
-import { getPublicIP } from "./proxy";
-
-const zodCamoufoxLaunchOptions = z.discriminatedUnion("proxy", [
-    z.strictObject({
-        /**
-         * Whether to run the browser in headless mode.
-         * Defaults to `true`
-         */
-        headless: z.optional(z.boolean()),
-        /**
-         * Proxy to use for the browser.
-         * NOTE: If using a proxy `geoip` must be enabled as well.
-         */
-        proxy: z.optional(z.undefined()),
-        /**
-         * Calculate longitude, latitude, time zone, country, & locale based on the IP address.
-         * Either `true` to find the IP address automatically or an object containing valid ip addresses.
-         */
-        geoip: z.optional(
-            z.union([
-                z.boolean(),
-                z.discriminatedUnion("ipv4", [
-                    z.strictObject({
-                        /**
-                         * ONE valid ipv4 address.
-                         * For example: `62.151.215.170` or `221.43.107.78`
-                         */
-                        ipv4: z.ipv4(),
-                        /**
-                         * ONE valid ipv6 address.
-                         * For example: `1be7:c800:3ecf:f4c9:d2d2:b258:5d0f:f5f2` or shorthand `d8ac:ae51:84ea::1fe8`
-                         */
-                        ipv6: z.optional(z.ipv6()),
-                    }),
-                    z.strictObject({
-                        /**
-                         * ONE valid ipv4 address.
-                         * For example: `62.151.215.170` or `221.43.107.78`
-                         */
-                        ipv4: z.optional(z.ipv4()),
-                        /**
-                         * ONE valid ipv6 address.
-                         * For example: `1be7:c800:3ecf:f4c9:d2d2:b258:5d0f:f5f2` or shorthand `d8ac:ae51:84ea::1fe8`
-                         */
-                        ipv6: z.ipv6(),
-                    }),
-                ]),
-            ]),
-        ),
-        /**
-         * Humanize the cursor movement.
-         * Takes either `true`, or the MAX duration in seconds of the cursor movement.
-         * The cursor typically takes up to 1.5 seconds to move across the window.
-         */
-        humanize: z.optional(z.union([z.boolean(), z.number().check(z.positive())])),
-        /**
-         * Cache previous pages, requests, etc.
-         * WARNING: This will use more memory!
-         * Take care if using this option in server environments.
-         */
-        enableCache: z.optional(z.boolean()),
-        /**
-         * A valid filepath to a directory containing a custom Camoufox installation.
-         */
-        executablePath: z.optional(z.string()),
-    }),
-    z.strictObject({
-        /**
-         * Whether to run the browser in headless mode.
-         * Defaults to `true`
-         */
-        headless: z.optional(z.boolean()),
-        /**
-         * Proxy to use for the browser.
-         * NOTE: If using a proxy `geoip` must be enabled as well.
-         */
-        proxy: z.strictObject({
-            /**
-             * Proxy to be used for all requests. HTTP and SOCKS proxies are supported.
-             * For example: `https://myproxy.domain.com:3128` or `socks5://socks.example.com`
-             */
-            server: z.url({
-                protocol: /(^https?$|^socks5$)/,
-                normalize: true,
-                error: "Unsupported Proxy Protocol, Only 'http:', 'https:' and 'socks5:' protocols are supported",
-            }),
-            /**
-             * Username to use if proxy requires authentication.
-             */
-            username: z.optional(z.string()),
-            /**
-             * Password to use if proxy requires authentication.
-             */
-            password: z.optional(z.string()),
-            /**
-             * Comma-separated domains to bypass proxy.
-             * For example: `"chromium.org, domain.com, example.net"`
-             */
-            bypass: z.optional(
-                z.string().check(
-                    z.refine(
-                        (bypassList) => {
-                            const splitted = bypassList.split(",");
-                            // Loop through all domains from the comma-separated user input.
-                            // If all domains provided passes a regex check return true.
-                            // However, if a single domain check fails, early return false.
-                            for (const domain of splitted) {
-                                const result = z.string().check(z.regex(z.regexes.domain)).safeParse(domain);
-                                if (!result.success) {
-                                    return false;
-                                }
-                            }
-                            return true;
-                        },
-                        { error: "Invalid Domain in 'bypass' list" },
-                    ),
-                ),
+import { getLocaleConfig, zodLocale, zodTimezone } from "./locale";
+import { addResourceSwitchesToConfig, zodResourcePreset } from "./presets";
+import { loadProfile, type Profile, profileVersion, zodProfileSource } from "./profile";
+import {
+    getProxySettings,
+    getPublicIP,
+    normalizeProxy,
+    type ProxySettings,
+    zodProxy,
+    zodPublicIPOptions,
+} from "./proxy";
+import { acquireVirtualDisplay } from "./virtualDisplay";
+import { getWebGLConfig, restrictTargetOS, zodWebGLConfig } from "./webgl";
+
+const zodDryRunOptions = z.strictObject({
+    /**
+     * Executable path to return, instead of looking for a Camoufox install.
+     * Defaults to `"camoufox"`
+     */
+    executablePath: z.optional(z.string()),
+    /**
+     * Public IP to use when `geoip` is `true`, instead of asking the public IP services.
+     * Defaults to `{ ipv4: "203.0.113.1" }`
+     */
+    publicIP: z.optional(z.strictObject({ ipv4: z.optional(z.ipv4()), ipv6: z.optional(z.ipv6()) })),
+    /**
+     * GeoIP lookup result to use for the public IP, instead of reading the databases.
+     * Defaults to New York, US.
+     */
+    geoip: z.optional(
+        z.strictObject({
+            countryCode: z
+                .string()
+                .check(z.regex(/^[A-Z]{2}$/, "Invalid country code, Expected an ISO 3166 alpha-2 code")),
+            location: z.optional(
+                z.extend(zodGeolocation, {
+                    accuracy: z.number().check(z.positive()),
+                    timezone: z.optional(zodTimezone),
+                }),
             ),
+            asn: z.optional(z.strictObject({ number: z.int().check(z.positive()), organization: z.string() })),
         }),
-        /**
-         * Calculate longitude, latitude, time zone, country, & locale based on the IP address.
-         * Either `true` to find the IP address automatically or an object containing valid ip addresses.
-         */
-        geoip: z.union([
+    ),
+});
+
+type DryRun = Required<z.infer<typeof zodDryRunOptions>>;
+
+// Stand-ins for a dry run, an IP address reserved for documentation placed in New York.
+const defaultDryRun: DryRun = {
+    executablePath: "camoufox",
+    publicIP: { ipv4: "203.0.113.1" },
+    geoip: {
+        countryCode: "US",
+        location: { latitude: 40.7128, longitude: -74.006, accuracy: 100, timezone: "America/New_York" },
+    },
+};
+
+// Options shared by every branch of the union below.
+export const zodSharedOptions = {
+    /**
+     * Whether to run the browser in headless mode.
+     * `"virtual"` runs a headed browser on an Xvfb display sized like the fingerprint's screen, Linux only.
+     * Dispose the returned launch options to stop the display.
+     * Defaults to `true`
+     */
+    headless: z.optional(z.union([z.boolean(), z.literal("virtual")])),
+    /**
+     * Humanize the cursor movement.
+     * Takes either `true`, or the MAX duration in seconds of the cursor movement.
+     * The cursor typically takes up to 1.5 seconds to move across the window.
+     */
+    humanize: z.optional(z.union([z.boolean(), z.number().check(z.positive())])),
+    /**
+     * Cache previous pages, requests, etc.
+     * WARNING: This will use more memory!
+     * Take care if using this option in server environments.
+     */
+    enableCache: z.optional(z.boolean()),
+    /**
+     * Run every site in a single content process, and cap the session history and caches.
+     * Conflicts with `enableCache`, which wins when both are set explicitly.
+     * Set explicitly, it wins over the `enableCache` of a preset.
+     */
+    lowMemory: z.optional(z.boolean()),
+    /**
+     * Don't load images, to save bandwidth.
+     */
+    blockImages: z.optional(z.boolean()),
+    /**
+     * Disable WebRTC entirely.
+     */
+    blockWebrtc: z.optional(z.boolean()),
+    /**
+     * Disable the Cross-Origin-Opener-Policy, so cross-origin popups and iframes keep their opener.
+     */
+    disableCoop: z.optional(z.boolean()),
+    /**
+     * Never send telemetry, health reports or study data.
+     */
+    disableTelemetry: z.optional(z.boolean()),
+    /**
+     * Named set of the switches above, switches given explicitly take precedence.
+     * `"lean"`: `lowMemory`, `blockImages` and `disableTelemetry`
+     * `"private"`: `blockWebrtc` and `disableTelemetry`
+     * `"cached"`: `enableCache` and `disableTelemetry`
+     */
+    preset: z.optional(zodResourcePreset),
+    /**
+     * A valid filepath to a custom Camoufox installation, either its directory or the executable itself.
+     */
+    executablePath: z.optional(z.string()),
+    /**
+     * Version installed by `installCamoufox` to launch, can't be combined with `executablePath`.
+     * Defaults to the default install, otherwise the newest installed version.
+     */
+    version: z.optional(zodCamoufoxVersion),
+    /**
+     * Operating system to generate the fingerprint for.
+     * Either one of `"windows"`, `"macos"` or `"linux"`, or a list of them to pick from at random.
+     * Defaults to a random OS, weighted by how common it is among Firefox users.
+     */
+    os: z.optional(z.union([zodTargetOS, z.array(zodTargetOS)])),
+    /**
+     * Constrain the generated screen size, in pixels.
+     * For example: `{ minWidth: 1280, maxWidth: 1920 }`
+     */
+    screen: z.optional(zodScreenConstraints),
+    /**
+     * Fixed outer size of the browser window, in pixels.
+     * Must fit inside the generated screen. Defaults to a maximized window.
+     */
+    window: z.optional(zodWindowSize),
+    /**
+     * WebGL vendor and renderer to report.
+     * Must be a pair that exists on the target OS. Defaults to a realistic pair sampled for the target OS.
+     */
+    webglConfig: z.optional(zodWebGLConfig),
+    /**
+     * Disable WebGL entirely.
+     * WARNING: Some websites treat a missing WebGL context as a bot signal!
+     */
+    blockWebgl: z.optional(z.boolean()),
+    /**
+     * Font families to report on top of the fonts of the target OS.
+     * Must be in the `fonts` directory of the Camoufox install, missing fonts are left out with a warning.
+     * For example: `["Roboto", "Open Sans"]`
+     */
+    customFonts: z.optional(zodCustomFonts),
+    /**
+     * Valid filepaths to unpacked Firefox add-on directories, each containing a `manifest.json`.
+     * For example: `["/path/to/my-addon"]`
+     */
+    addons: z.optional(z.array(z.string())),
+    /**
+     * Default add-ons shipped in the `addons` directory next to the Camoufox install, that should NOT be loaded.
+     * For example: `["UBO"]`
+     */
+    excludeDefaultAddons: z.optional(z.array(zodDefaultAddon)),
+    /**
+     * Raw Camoufox config properties, passed to Camoufox as-is.
+     * Takes precedence over every value derived from the other options.
+     * For example: `{ "navigator.hardwareConcurrency": 8, "showcursor": false }`
+     */
+    config: z.optional(z.record(z.string(), z.json())),
+    /**
+     * Raw Firefox user preferences.
+     * Takes precedence over every preference derived from the other options.
+     * For example: `{ "browser.startup.homepage": "https://example.com" }`
+     */
+    firefoxUserPrefs: z.optional(z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]))),
+    /**
+     * Locale, or list of locales in order of preference, to use instead of the one found through `geoip`.
+     * Also sets a matching `Accept-Language` header.
+     * For example: `"en-GB"` or `["en-GB", "fr-FR"]`
+     */
+    locale: z.optional(zodLocale),
+    /**
+     * IANA time zone to use instead of the one found through `geoip`.
+     * For example: `"Europe/London"`
+     */
+    timezone: z.optional(zodTimezone),
+    /**
+     * Geolocation to use instead of the one found through `geoip`.
+     * For example: `{ latitude: 51.5072, longitude: -0.1276, accuracy: 100 }`
+     */
+    geolocation: z.optional(zodGeolocation),
+    /**
+     * How to look up the public IP address when `geoip` is `true`.
+     * For example: `{ services: ["https://api.ipify.org"], timeout: 5000 }`
+     */
+    publicIP: z.optional(zodPublicIPOptions),
+    /**
+     * MaxMind database(s) to use for `geoip`, either filepaths or Buffers.
+     * City, Country and ASN databases are supported, the ASN of the public IP shows up in the `explain` output.
+     * Defaults to the database shipped with the Camoufox install, or the one installed by `installGeoIPDatabase`.
+     */
+    geoipDatabase: z.optional(zodGeoIPDatabase),
+    /**
+     * Use GeoIP databases built more than a year ago, instead of throwing a `GeoIPDatabaseError`.
+     * Their locations may have drifted.
+     */
+    allowOutdatedGeoIPDatabase: z.optional(z.boolean()),
+    /**
+     * Environment variables of the browser.
+     * For example: `{ inherit: ["PATH", "HOME", "DISPLAY"], vars: { "TZ": "UTC" } }`
+     */
+    env: z.optional(zodEnvOptions),
+    /**
+     * Seed for every random choice, the same seed and options always generate the same fingerprint.
+     * For example: `"account-42"` or `42`
+     */
+    seed: z.optional(z.union([z.string(), z.int()])),
+    /**
+     * Profile created by `createProfile`, or a filepath to one written by `saveProfile`.
+     * Reuses the stored geolocation, locale, WebRTC and fingerprint values instead of looking up or generating new ones.
+     */
+    profile: z.optional(zodProfileSource),
+    /**
+     * How to report option combinations that give the browser away, per rule: `"warn"`, `"error"` or `"ignore"`.
+     * For example: `{ proxyTimezone: "error", localeCountry: "ignore" }`
+     * Defaults to `"warn"` for every rule.
+     */
+    consistency: z.optional(zodConsistencyOptions),
+    /**
+     * Resolve the options without touching the machine or the network.
+     * The Camoufox install, public IP and GeoIP lookups are replaced with stand-ins, and no virtual display is started.
+     * The fonts and add-ons of the install are not looked up, the explanation lists the default add-ons it would add.
+     * Either `true` for the default stand-ins, or an object with the stand-ins to use.
+     */
+    dryRun: z.optional(z.union([z.boolean(), zodDryRunOptions])),
+    /**
+     * Attach an `explanation` to the returned launch options, with where every config value and Firefox pref came from,
+     * and the values that were dropped because an earlier source already set the key.
+     */
+    explain: z.optional(z.boolean()),
+    /**
+     * Skip every consistency check, for setups that are inconsistent on purpose.
+     * Defaults to `false`
+     */
+    iKnowWhatImDoing: z.optional(z.boolean()),
+};
+
+const zodNoProxyLaunchOptions = z.strictObject({
+    /**
+     * Proxy to use for the browser.
+     * NOTE: If using a proxy `geoip` must be enabled as well.
+     */
+    proxy: z.optional(z.undefined()),
+    /**
+     * Use the proxy from the `HTTPS_PROXY` or `ALL_PROXY` environment variables, bypassing `NO_PROXY`.
+     * Defaults to `false`
+     */
+    proxyFromEnv: z.optional(z.boolean()),
+    /**
+     * Calculate longitude, latitude, time zone, country, & locale based on the IP address.
+     * Either `true` to find the IP address automatically or an object containing valid ip addresses.
+     */
+    geoip: z.optional(
+        z.union([
             z.boolean(),
-            z.discriminatedUnion("ipv4", [
+            z.union([
                 z.strictObject({
                     /**
                      * ONE valid ipv4 address.
@@ -156,57 +309,328 @@ const zodCamoufoxLaunchOptions = z.discriminatedUnion("proxy", [
                 }),
             ]),
         ]),
-        /**
-         * Humanize the cursor movement.
-         * Takes either `true`, or the MAX duration in seconds of the cursor movement.
-         * The cursor typically takes up to 1.5 seconds to move across the window.
-         */
-        humanize: z.optional(z.union([z.boolean(), z.number().check(z.positive())])),
-        /**
-         * Cache previous pages, requests, etc.
-         * WARNING: This will use more memory!
-         * Take care if using this option in server environments.
-         */
-        enableCache: z.optional(z.boolean()),
-        /**
-         * A valid filepath to a directory containing a custom Camoufox installation.
-         */
-        executablePath: z.optional(z.string()),
-    }),
-]);
+    ),
+    ...zodSharedOptions,
+});
+
+const zodProxyLaunchOptions = z.strictObject({
+    /**
+     * Proxy to use for the browser.
+     * NOTE: If using a proxy `geoip` must be enabled as well.
+     */
+    proxy: zodProxy,
+    /**
+     * Can't be combined with an explicit `proxy`.
+     */
+    proxyFromEnv: z.optional(z.literal(false)),
+    /**
+     * Calculate longitude, latitude, time zone, country, & locale based on the IP address.
+     * Either `true` to find the IP address automatically or an object containing valid ip addresses.
+     */
+    geoip: z.union([
+        z.boolean(),
+        z.union([
+            z.strictObject({
+                /**
+                 * ONE valid ipv4 address.
+                 * For example: `62.151.215.170` or `221.43.107.78`
+                 */
+                ipv4: z.ipv4(),
+                /**
+                 * ONE valid ipv6 address.
+                 * For example: `1be7:c800:3ecf:f4c9:d2d2:b258:5d0f:f5f2` or shorthand `d8ac:ae51:84ea::1fe8`
+                 */
+                ipv6: z.optional(z.ipv6()),
+            }),
+            z.strictObject({
+                /**
+                 * ONE valid ipv4 address.
+                 * For example: `62.151.215.170` or `221.43.107.78`
+                 */
+                ipv4: z.optional(z.ipv4()),
+                /**
+                 * ONE valid ipv6 address.
+                 * For example: `1be7:c800:3ecf:f4c9:d2d2:b258:5d0f:f5f2` or shorthand `d8ac:ae51:84ea::1fe8`
+                 */
+                ipv6: z.ipv6(),
+            }),
+        ]),
+    ]),
+    ...zodSharedOptions,
+});
+
+export const zodCamoufoxLaunchOptions = z.union([zodNoProxyLaunchOptions, zodProxyLaunchOptions]);
 export type CamoufoxLaunchOptions = z.infer<typeof zodCamoufoxLaunchOptions>;
 
-export async function camoufoxLaunchOptions({
-    headless,
-    proxy,
-    geoip,
-    humanize,
-    enableCache,
-    executablePath,
-}: CamoufoxLaunchOptions) {
-    // Parse the raw user input with Zod.
-    const userInput = zodCamoufoxLaunchOptions.safeParse({
-        headless,
-        proxy,
-        geoip,
-        humanize,
-        enableCache,
+function addManualGeoToConfig(
+    mainConfig: Record<string, ConfigValue>,
+    { locale, timezone, geolocation }: Pick<CamoufoxLaunchOptions, "locale" | "timezone" | "geolocation">,
+) {
+    if (locale) {
+        addAllToConfig(mainConfig, getLocaleConfig(locale), { source: "user", detail: "locale" });
+    }
+    if (timezone) {
+        addToConfig(mainConfig, "timezone", timezone, { source: "user", detail: "timezone" });
+    }
+    if (geolocation) {
+        const origin: ConfigOrigin = { source: "user", detail: "geolocation" };
+        addToConfig(mainConfig, "geolocation:latitude", geolocation.latitude, origin);
+        addToConfig(mainConfig, "geolocation:longitude", geolocation.longitude, origin);
+        if (geolocation.accuracy) {
+            addToConfig(mainConfig, "geolocation:accuracy", geolocation.accuracy, origin);
+        }
+    }
+}
+
+async function addGeoIPToConfig(
+    mainConfig: Record<string, ConfigValue>,
+    geoip: Exclude<CamoufoxLaunchOptions["geoip"], false | undefined>,
+    proxy: ProxySettings | undefined,
+    {
+        publicIP: publicIPOptions,
+        geoipDatabase,
+        allowOutdatedGeoIPDatabase,
+    }: Pick<CamoufoxLaunchOptions, "publicIP" | "geoipDatabase" | "allowOutdatedGeoIPDatabase">,
+    executablePath: string,
+    dryRun: DryRun | undefined,
+) {
+    // A dry run stands in for the public IP services, IP addresses given in `geoip` are used as-is.
+    const publicIPOrigin: ConfigOrigin =
+        geoip !== true
+            ? { source: "user", detail: "geoip" }
+            : { source: "publicIP", detail: dryRun ? "dryRun.publicIP" : "publicIP services" };
+    const publicIP = await getPublicIP(geoip === true && dryRun ? dryRun.publicIP : geoip, proxy, publicIPOptions);
+
+    if (publicIP.ipv4) {
+        addToConfig(mainConfig, "webrtc:ipv4", publicIP.ipv4, publicIPOrigin);
+    }
+    if (publicIP.ipv6) {
+        addToConfig(mainConfig, "webrtc:ipv6", publicIP.ipv6, publicIPOrigin);
+    }
+
+    const geoData = await getGeolocationAndLocale(
+        publicIP,
         executablePath,
-    });
+        { geoipDatabase, allowOutdated: allowOutdatedGeoIPDatabase },
+        dryRun?.geoip,
+    );
+    // The network the public IP belongs to tells a residential IP apart from a hosting one.
+    const asnDetail = geoData.asn ? `, AS${geoData.asn.number} ${geoData.asn.organization}` : "";
+    const geoOrigin: ConfigOrigin = {
+        source: "geoip",
+        detail: `${dryRun ? "dryRun.geoip" : "geoipDatabase"}${asnDetail}`,
+    };
+
+    if (geoData.longitude !== undefined && geoData.latitude !== undefined) {
+        addToConfig(mainConfig, "geolocation:longitude", geoData.longitude, geoOrigin);
+        addToConfig(mainConfig, "geolocation:latitude", geoData.latitude, geoOrigin);
+    }
+    if (geoData.accuracy !== undefined) {
+        addToConfig(mainConfig, "geolocation:accuracy", geoData.accuracy, geoOrigin);
+    }
+    addToConfig(mainConfig, "locale:all", geoData.locales, geoOrigin);
+    if (geoData.timezone) {
+        addToConfig(mainConfig, "timezone", geoData.timezone, geoOrigin);
+    }
+
+    return { countryCode: geoData.countryCode, timezone: geoData.timezone };
+}
+
+/**
+ * Parse the raw user input with Zod, throw a pretty error if it's invalid.
+ * The input is checked against the branch its `proxy` option selects, so errors point at the actual problem.
+ */
+export function parseLaunchOptions(options: CamoufoxLaunchOptions) {
+    const schema = options.proxy === undefined ? zodNoProxyLaunchOptions : zodProxyLaunchOptions;
+    const userInput = schema.safeParse(options);
     if (!userInput.success) {
-        throw new Error(z.prettifyError(userInput.error));
+        throw new OptionsValidationError(z.prettifyError(userInput.error), userInput.error.issues);
     }
 
     // Validated good user input, having passed Zod's parsing.
     // "zvui" - an acronym for "Zod Validated User Input"
-    const zvui = userInput.data;
+    return userInput.data;
+}
+
+const maxFingerprintAttempts = 20;
+
+// Generate the navigator, screen, window and WebGL fingerprint, returns the target OS it was generated for.
+function addFingerprintToConfig(
+    mainConfig: Record<string, ConfigValue>,
+    firefoxPrefs: Record<string, string | number | boolean>,
+    zvui: CamoufoxLaunchOptions,
+    takenFingerprints?: Set<string>,
+) {
+    // Every random choice is drawn from the same source, so a seed reproduces the whole fingerprint.
+    const random = createRandomSource(zvui.seed);
+
+    // Draw again while the fingerprint is already taken, the next draws of a seeded source are just as reproducible.
+    for (let attempt = 1; attempt <= maxFingerprintAttempts; attempt++) {
+        // A fixed WebGL vendor/renderer pair limits which operating systems can be picked.
+        const fingerprint = generateFingerprint({
+            os: zvui.blockWebgl ? zvui.os : restrictTargetOS(zvui.os, zvui.webglConfig),
+            screen: zvui.screen,
+            window: zvui.window,
+            random,
+        });
+        const webglConfig = zvui.blockWebgl ? {} : getWebGLConfig(fingerprint.os, zvui.webglConfig, random);
+
+        const fingerprintKey = JSON.stringify([fingerprint.config, webglConfig]);
+        if (takenFingerprints?.has(fingerprintKey)) {
+            continue;
+        }
+        takenFingerprints?.add(fingerprintKey);
+
+        addAllToConfig(mainConfig, fingerprint.config, {
+            source: "fingerprint",
+            detail: `${fingerprint.os} fingerprint`,
+        });
+
+        // Either disable WebGL, or spoof a vendor/renderer pair consistent with the target OS.
+        if (zvui.blockWebgl) {
+            addToConfig(firefoxPrefs, "webgl.disabled", true, { source: "user", detail: "blockWebgl" });
+        } else {
+            addAllToConfig(mainConfig, webglConfig, {
+                source: zvui.webglConfig ? "user" : "fingerprint",
+                detail: "webglConfig",
+            });
+        }
+        return fingerprint.os;
+    }
+
+    throw new FingerprintError(
+        `Fingerprint error, Every fingerprint drawn in ${maxFingerprintAttempts} attempts is already in use, Loosen the 'os', 'screen', 'window' or 'webglConfig' constraints`,
+        { context: { attempts: maxFingerprintAttempts } },
+    );
+}
+
+/**
+ * Where a config value or Firefox pref came from.
+ */
+export type ExplainedValue = ConfigOrigin & { value: ConfigValue };
+
+/**
+ * Where every config value and Firefox pref came from, and the values dropped because the key was already set.
+ * A dry run also lists what it left out, that a real launch would add.
+ */
+export type LaunchExplanation = {
+    dryRun: boolean;
+    skipped: string[];
+    config: Record<string, ExplainedValue>;
+    firefoxUserPrefs: Record<string, ExplainedValue>;
+    shadowed: (ConfigProvenance["shadowed"][number] & { target: "config" | "firefoxUserPrefs" })[];
+};
+
+function explainValues(values: Record<string, ConfigValue>, { origins }: ConfigProvenance) {
+    return Object.fromEntries(
+        Object.entries(values).map(([key, value]) => [key, { ...origins[key], value }]),
+    ) as Record<string, ExplainedValue>;
+}
+
+function getDryRun(dryRun: CamoufoxLaunchOptions["dryRun"]): DryRun | undefined {
+    if (!dryRun) {
+        return undefined;
+    }
+    return dryRun === true ? defaultDryRun : { ...defaultDryRun, ...dryRun };
+}
+
+async function addAddonsToConfig(
+    mainConfig: Record<string, ConfigValue>,
+    { addons = [], excludeDefaultAddons = [] }: Pick<CamoufoxLaunchOptions, "addons" | "excludeDefaultAddons">,
+    executablePath: string,
+    dryRun: DryRun | undefined,
+) {
+    // A dry run has no install to find the default add-ons in, and leaves the user's add-on directories unchecked.
+    if (dryRun) {
+        if (addons.length > 0) {
+            const addonPaths = [...new Set(addons.map((addon) => path.resolve(addon)))];
+            addToConfig(mainConfig, "addons", addonPaths, { source: "user", detail: "addons" });
+        }
+        const pendingAddons = defaultAddons.filter((addon) => !excludeDefaultAddons.includes(addon));
+        return pendingAddons.length > 0 ? [`would add default addons: ${pendingAddons.join(", ")}`] : [];
+    }
+
+    const addonPaths = await getAddonPaths(addons, excludeDefaultAddons, executablePath);
+    if (addonPaths.length > 0) {
+        const origin: ConfigOrigin =
+            addons.length > 0 ? { source: "user", detail: "addons" } : { source: "default", detail: "default add-ons" };
+        addToConfig(mainConfig, "addons", addonPaths, origin);
+    }
+    return [];
+}
+
+// Get Camoufox's executable path, use the user input, otherwise use the Default install location.
+function getExecutablePath(
+    zvui: CamoufoxLaunchOptions,
+    dryRun: DryRun | undefined,
+    executablePaths: LaunchContext["executablePaths"],
+) {
+    if (dryRun) {
+        return Promise.resolve(dryRun.executablePath);
+    }
+
+    // Launches of the same install share one lookup.
+    const cacheKey = JSON.stringify([zvui.executablePath, zvui.version]);
+    const cached = executablePaths.get(cacheKey);
+    if (cached) {
+        return cached;
+    }
+
+    const executablePath = launchPath(zvui.executablePath, zvui.version).then(async (validatedPath) => {
+        // Warn now, rather than leaving a Playwright hang on a Juggler protocol it can't speak unexplained.
+        await checkPlaywrightCompatibility(validatedPath);
+        return validatedPath;
+    });
+    executablePaths.set(cacheKey, executablePath);
+    return executablePath;
+}
+
+function explainLaunch(
+    mainConfig: Record<string, ConfigValue>,
+    firefoxPrefs: Record<string, string | number | boolean>,
+    dryRun: DryRun | undefined,
+    skipped: string[],
+): LaunchExplanation {
+    const configProvenance = getConfigProvenance(mainConfig);
+    const prefsProvenance = getConfigProvenance(firefoxPrefs);
+
+    return {
+        dryRun: dryRun !== undefined,
+        skipped,
+        config: explainValues(mainConfig, configProvenance),
+        firefoxUserPrefs: explainValues(firefoxPrefs, prefsProvenance),
+        shadowed: [
+            ...configProvenance.shadowed.map((shadowed) => ({ target: "config" as const, ...shadowed })),
+            ...prefsProvenance.shadowed.map((shadowed) => ({ target: "firefoxUserPrefs" as const, ...shadowed })),
+        ],
+    };
+}
+
+/**
+ * State shared by a batch of launches, so the install is checked once and no fingerprint is handed out twice.
+ */
+export type LaunchContext = {
+    executablePaths: Map<string, Promise<string>>;
+    fingerprints: Set<string>;
+};
+
+export function createLaunchContext(): LaunchContext {
+    return { executablePaths: new Map(), fingerprints: new Set() };
+}
 
-    // Get Camoufox's executable path, use the user input, otherwise use the Default install location.
-    const vaildatedExecutablePath = await launchPath(zvui.executablePath);
+// A dry run has no install to scan the fonts of.
+function getInstalledFonts(executablePath: string, dryRun: DryRun | undefined) {
+    return dryRun ? Promise.resolve(undefined) : listInstalledFontFamilies(executablePath);
+}
+
+async function resolveLaunchOptions(zvui: CamoufoxLaunchOptions, context: LaunchContext = createLaunchContext()) {
+    const dryRun = getDryRun(zvui.dryRun);
+    const vaildatedExecutablePath = await getExecutablePath(zvui, dryRun, context.executablePaths);
 
     // Create the two main config variables, and their validator.
     const configCheck = z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]));
-    const mainConfig = {} as Record<string, string | number | boolean>;
+    const mainConfigCheck = z.record(z.string(), z.json());
+    const mainConfig = {} as Record<string, ConfigValue>;
     const firefoxPrefs = {} as Record<string, string | number | boolean>;
 
     // **
@@ -214,70 +638,90 @@ export async function camoufoxLaunchOptions({
     // **
 
     // If user input is NOT undefined, use the user input, otherwise Default to true.
-    const headlessMode = zvui.headless !== undefined ? zvui.headless : true;
+    // A virtual display runs the browser headed.
+    const headlessMode = zvui.headless !== undefined ? zvui.headless === true : true;
 
-    // Zod already took care of all validation needs for proxy.
-    const proxySettings = zvui.proxy;
+    // Zod already validated the proxy, normalize it into the shape Playwright expects.
+    const proxySettings = getProxySettings(zvui);
 
-    // Set geolocation if required.
-    if (zvui.geoip) {
-        const publicIP = await getPublicIP(zvui.geoip, proxySettings);
+    // The first value added for a key wins, so the raw user config and prefs are added before anything derived.
+    if (zvui.config) {
+        validateConfigProperties(zvui.config);
+        addAllToConfig(mainConfig, zvui.config, { source: "user", detail: "config" });
+    }
+    if (zvui.firefoxUserPrefs) {
+        addAllToConfig(firefoxPrefs, zvui.firefoxUserPrefs, { source: "user", detail: "firefoxUserPrefs" });
+    }
 
-        if (publicIP.ipv4) {
-            addToConfig(mainConfig, "webrtc:ipv4", publicIP.ipv4);
-        }
-        if (publicIP.ipv6) {
-            addToConfig(mainConfig, "webrtc:ipv6", publicIP.ipv6);
-        }
+    // A saved profile comes right after the raw user input, and replaces every live lookup and random choice.
+    const profile = zvui.profile ? await loadProfile(zvui.profile) : undefined;
+    if (profile) {
+        const origin: ConfigOrigin = {
+            source: "profile",
+            detail: typeof zvui.profile === "string" ? zvui.profile : `profile created ${profile.createdAt}`,
+        };
+        addAllToConfig(mainConfig, profile.config, origin);
+        addAllToConfig(firefoxPrefs, profile.firefoxUserPrefs, origin);
+    }
 
-        const geoData = await getGeolocationAndLocale(publicIP, vaildatedExecutablePath);
+    // Manual locale, timezone and geolocation are added before geoip, so they win over the looked up values.
+    addManualGeoToConfig(mainConfig, zvui);
 
-        addToConfig(mainConfig, "geolocation:longitude", geoData.longitude);
-        addToConfig(mainConfig, "geolocation:latitude", geoData.latitude);
-        addToConfig(mainConfig, "geolocation:accuracy", geoData.accuracy);
-        addToConfig(mainConfig, "locale:all", geoData.locales);
-        if (geoData.timezone) {
-            addToConfig(mainConfig, "timezone", geoData.timezone);
-        }
-    }
+    // Set geolocation if required.
+    const geoip =
+        zvui.geoip && !profile
+            ? await addGeoIPToConfig(mainConfig, zvui.geoip, proxySettings, zvui, vaildatedExecutablePath, dryRun)
+            : undefined;
 
     //  If enabled set the humanize option.
     if (zvui.humanize) {
-        addToConfig(mainConfig, "humanize", true);
+        const origin: ConfigOrigin = { source: "user", detail: "humanize" };
+        addToConfig(mainConfig, "humanize", true, origin);
         if (typeof zvui.humanize === "number") {
-            addToConfig(mainConfig, "humanize:maxTime", zvui.humanize);
+            addToConfig(mainConfig, "humanize:maxTime", zvui.humanize, origin);
         }
     }
 
-    // If enabled set firefoxPrefs config to cache previous pages, requests, etc.
-    if (zvui.enableCache) {
-        addToConfig(firefoxPrefs, "browser.sessionhistory.max_entries", 10);
-        addToConfig(firefoxPrefs, "browser.sessionhistory.max_total_viewers", -1);
-        addToConfig(firefoxPrefs, "browser.cache.memory.enable", true);
-        addToConfig(firefoxPrefs, "browser.cache.disk_cache_ssl", true);
-        addToConfig(firefoxPrefs, "browser.cache.disk.smart_size.enabled", true);
-    }
+    // Generate the fingerprint for the target OS, unless the profile already holds one.
+    const targetOS = profile
+        ? profile.os
+        : addFingerprintToConfig(mainConfig, firefoxPrefs, zvui, context.fingerprints);
+
+    // Report the fonts and voices of the target OS, limited to the fonts the install ships.
+    const installedFonts = await getInstalledFonts(vaildatedExecutablePath, dryRun);
+    addFontsToConfig(mainConfig, targetOS, zvui, installedFonts);
+    addVoicesToConfig(mainConfig, targetOS);
+
+    // Load the user's add-ons, along with the default add-ons that were not excluded.
+    const skipped = await addAddonsToConfig(mainConfig, zvui, vaildatedExecutablePath, dryRun);
+
+    // Set the prefs of the preset and the resource switches, like caching previous pages or blocking images.
+    addResourceSwitchesToConfig(firefoxPrefs, zvui);
 
     // Final config check, throw a pretty error if not.
-    const finalMainConfig = configCheck.safeParse(mainConfig);
+    const finalMainConfig = mainConfigCheck.safeParse(mainConfig);
     const finalFirefoxPrefs = configCheck.safeParse(firefoxPrefs);
-    const finalNodeEnv = configCheck.safeParse(process.env);
 
     if (!finalMainConfig.success) {
-        throw new Error(z.prettifyError(finalMainConfig.error));
+        throw new ConfigError(z.prettifyError(finalMainConfig.error), {
+            context: { issues: finalMainConfig.error.issues },
+        });
     }
     if (!finalFirefoxPrefs.success) {
-        throw new Error(z.prettifyError(finalFirefoxPrefs.error));
-    }
-    if (!finalNodeEnv.success) {
-        throw new Error(z.prettifyError(finalNodeEnv.error));
+        throw new ConfigError(z.prettifyError(finalFirefoxPrefs.error), {
+            context: { issues: finalFirefoxPrefs.error.issues },
+        });
     }
 
-    //Convert mainConfig to environment variables to be passed to Camoufox.
-    const envVars = {
-        ...finalMainConfig.data,
-        ...finalNodeEnv.data,
-    };
+    // Catch combinations that give the browser away, like a proxy with the host's time zone.
+    checkConsistency(
+        { config: finalMainConfig.data, firefoxPrefs: finalFirefoxPrefs.data, proxy: proxySettings, geoip },
+        zvui,
+    );
+
+    // Convert mainConfig to `CAMOU_CONFIG_n` environment variables, next to the inherited and user variables.
+    const { env: envVars, report: envReport } = buildLaunchEnv(finalMainConfig.data, zvui.env ?? {});
+    zvui.env?.onReport?.(envReport);
 
     // Assemble the final return object.
     const finalReturnLaunchOptions: PlaywrightLaunchOptions = {
@@ -288,5 +732,113 @@ export async function camoufoxLaunchOptions({
         headless: headlessMode,
     };
 
-    return finalReturnLaunchOptions;
+    return {
+        launchOptions: finalReturnLaunchOptions,
+        config: finalMainConfig.data,
+        firefoxUserPrefs: finalFirefoxPrefs.data,
+        os: targetOS,
+        explanation: explainLaunch(mainConfig, firefoxPrefs, dryRun, skipped),
+    };
+}
+
+// The options a profile was created with, without the values that aren't JSON or shouldn't be written to disk.
+function getProfileInputs({
+    profile,
+    proxy,
+    publicIP,
+    geoipDatabase,
+    env,
+    dryRun: _dryRun,
+    explain: _explain,
+    ...inputs
+}: CamoufoxLaunchOptions) {
+    const storableInputs = {
+        ...inputs,
+        proxy: proxy && { ...normalizeProxy(proxy), password: undefined },
+        publicIP: publicIP && {
+            ...publicIP,
+            services: publicIP.services?.map((service) => (typeof service === "string" ? service : service.url)),
+        },
+        geoipDatabase: geoipDatabase && [geoipDatabase].flat().filter((source) => typeof source === "string"),
+        env: env && { inherit: env.inherit },
+    };
+    // Round trip through JSON to drop every `undefined` value.
+    return JSON.parse(JSON.stringify(storableInputs)) as Record<string, ConfigValue>;
+}
+
+/**
+ * Playwright launch options, that stop the virtual display when disposed.
+ * Carries an `explanation` of every config value and Firefox pref when launched with `explain`.
+ */
+export type CamoufoxLaunchResult = PlaywrightLaunchOptions & AsyncDisposable & { explanation?: LaunchExplanation };
+
+// Not enumerable, so the disposer and explanation are never copied or sent to Playwright along with the options.
+function withDisposer(
+    launchOptions: PlaywrightLaunchOptions,
+    dispose: () => Promise<void>,
+    explanation: LaunchExplanation | undefined,
+) {
+    Object.defineProperty(launchOptions, Symbol.asyncDispose, { value: dispose });
+    if (explanation) {
+        Object.defineProperty(launchOptions, "explanation", { value: explanation });
+    }
+    return launchOptions as CamoufoxLaunchResult;
+}
+
+const defaultVirtualScreenSize = { width: 1920, height: 1080 } as const;
+
+// The virtual display matches the fingerprint's screen, or a common screen size when the config has none.
+function getScreenSize(config: Record<string, ConfigValue>) {
+    const width = config["screen.width"];
+    const height = config["screen.height"];
+    if (typeof width === "number" && typeof height === "number") {
+        return { width, height };
+    }
+    return defaultVirtualScreenSize;
+}
+
+export async function camoufoxLaunchOptions(options: CamoufoxLaunchOptions) {
+    const zvui = parseLaunchOptions(options);
+    return await resolveCamoufoxLaunch(zvui);
+}
+
+/**
+ * Resolve already validated options into launch options, sharing the install check and fingerprints through the context.
+ */
+export async function resolveCamoufoxLaunch(zvui: CamoufoxLaunchOptions, context?: LaunchContext) {
+    const { launchOptions, config, explanation: resolvedExplanation } = await resolveLaunchOptions(zvui, context);
+    const explanation = zvui.explain ? resolvedExplanation : undefined;
+
+    // A dry run never starts a virtual display.
+    if (zvui.headless !== "virtual" || zvui.dryRun) {
+        return withDisposer(launchOptions, () => Promise.resolve(), explanation);
+    }
+
+    const display = await acquireVirtualDisplay(getScreenSize(config));
+    return withDisposer(
+        { ...launchOptions, env: { ...launchOptions.env, DISPLAY: display.name } },
+        display.release,
+        explanation,
+    );
+}
+
+/**
+ * Resolve the options once, and capture the resulting config and Firefox prefs as a profile.
+ * Pass the profile, or the file written by `saveProfile`, as the `profile` option to launch with the same identity again.
+ */
+export async function createProfile(options: CamoufoxLaunchOptions): Promise<Profile> {
+    const zvui = parseLaunchOptions(options);
+    const { config, firefoxUserPrefs, os } = await resolveLaunchOptions(zvui);
+
+    // Add-on paths belong to the machine, they are resolved again on every launch.
+    const { addons: _addonPaths, ...profileConfig } = config;
+
+    return {
+        version: profileVersion,
+        createdAt: new Date().toISOString(),
+        inputs: getProfileInputs(zvui),
+        os,
+        config: profileConfig,
+        firefoxUserPrefs,
+    };
 }
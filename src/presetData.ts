@@ -0,0 +1,77 @@
+// biome-ignore-all lint/style/noMagicNumbers: Firefox pref values
+
+/**
+ * Firefox prefs set by each resource and privacy switch.
+ * Switches are applied in this order, so when two of them set the same pref, the one listed first wins.
+ */
+export const resourceSwitches = {
+    /**
+     * Keep previous pages and requests in memory and on disk.
+     */
+    enableCache: {
+        "browser.sessionhistory.max_entries": 10,
+        "browser.sessionhistory.max_total_viewers": -1,
+        "browser.cache.memory.enable": true,
+        "browser.cache.disk_cache_ssl": true,
+        "browser.cache.disk.smart_size.enabled": true,
+    },
+    /**
+     * Run every site in a single content process, keep almost no session history and cap the caches, 16 MB in memory and 50 MB on disk.
+     */
+    lowMemory: {
+        "dom.ipc.processCount": 1,
+        "dom.ipc.processCount.webIsolated": 1,
+        "fission.autostart": false,
+        "browser.sessionhistory.max_entries": 2,
+        "browser.sessionhistory.max_total_viewers": 0,
+        "browser.cache.memory.capacity": 16_384,
+        "browser.cache.disk.smart_size.enabled": false,
+        "browser.cache.disk.capacity": 51_200,
+    },
+    /**
+     * Don't load images.
+     */
+    blockImages: {
+        "permissions.default.image": 2,
+    },
+    /**
+     * Disable WebRTC, no peer connections can reveal an IP address.
+     */
+    blockWebrtc: {
+        "media.peerconnection.enabled": false,
+    },
+    /**
+     * Disable the Cross-Origin-Opener-Policy, so cross-origin popups and iframes keep their opener.
+     */
+    disableCoop: {
+        "browser.tabs.remote.useCrossOriginOpenerPolicy": false,
+    },
+    /**
+     * Never send telemetry, health reports or study data.
+     */
+    disableTelemetry: {
+        "toolkit.telemetry.enabled": false,
+        "toolkit.telemetry.unified": false,
+        "toolkit.telemetry.archive.enabled": false,
+        "datareporting.healthreport.uploadEnabled": false,
+        "datareporting.policy.dataSubmissionEnabled": false,
+        "app.shield.optoutstudies.enabled": false,
+        "browser.discovery.enabled": false,
+    },
+} as const satisfies Record<string, Record<string, string | number | boolean>>;
+
+export type ResourceSwitch = keyof typeof resourceSwitches;
+
+/**
+ * Switches turned on by each named preset.
+ */
+export const resourcePresets = {
+    // Scraping on servers, as little memory and bandwidth as possible.
+    lean: ["lowMemory", "blockImages", "disableTelemetry"],
+    // Nothing leaves the browser besides the pages themselves.
+    private: ["blockWebrtc", "disableTelemetry"],
+    // Revisiting the same sites, trading memory for fewer requests.
+    cached: ["enableCache", "disableTelemetry"],
+} as const satisfies Record<string, ResourceSwitch[]>;
+
+export type ResourcePreset = keyof typeof resourcePresets;
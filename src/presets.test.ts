@@ -0,0 +1,47 @@
+import process from "node:process";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { addResourceSwitchesToConfig } from "./presets";
+
+describe("addResourceSwitchesToConfig", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    function getPrefs(options: Parameters<typeof addResourceSwitchesToConfig>[1]) {
+        const firefoxPrefs: Record<string, string | number | boolean> = {};
+        addResourceSwitchesToConfig(firefoxPrefs, options);
+        return firefoxPrefs;
+    }
+
+    it("sets the prefs of every switch of a preset", () => {
+        expect(getPrefs({ preset: "lean" })).toMatchObject({
+            "dom.ipc.processCount": 1,
+            "permissions.default.image": 2,
+            "toolkit.telemetry.enabled": false,
+        });
+        expect(getPrefs({ blockWebrtc: true })).toEqual({ "media.peerconnection.enabled": false });
+    });
+
+    it("lets explicit switches turn a preset's switch off, or win over it", () => {
+        expect(getPrefs({ preset: "lean", blockImages: false })["permissions.default.image"]).toBeUndefined();
+
+        const emitWarning = vi.spyOn(process, "emitWarning").mockImplementation(() => undefined);
+        expect(getPrefs({ preset: "cached", lowMemory: true })).toMatchObject({
+            "browser.sessionhistory.max_entries": 2,
+            "browser.cache.disk.smart_size.enabled": false,
+        });
+        expect(emitWarning).toHaveBeenCalledWith(expect.stringMatching(/^'lowMemory' and 'enableCache' set/), {
+            code: "CAMOUFOX_PRESET_CONFLICT",
+        });
+    });
+
+    it("warns about conflicting switches, and keeps the one listed first", () => {
+        const emitWarning = vi.spyOn(process, "emitWarning").mockImplementation(() => undefined);
+
+        expect(getPrefs({ enableCache: true, lowMemory: true })["browser.sessionhistory.max_entries"]).toBe(10);
+        expect(emitWarning).toHaveBeenCalledWith(
+            expect.stringContaining("'browser.sessionhistory.max_entries'"),
+            expect.objectContaining({ code: "CAMOUFOX_PRESET_CONFLICT" }),
+        );
+    });
+});
@@ -0,0 +1,73 @@
+import process from "node:process";
+import { z } from "zod/v4/mini";
+import { addAllToConfig, type ConfigOrigin } from "./helper";
+import { type ResourcePreset, type ResourceSwitch, resourcePresets, resourceSwitches } from "./presetData";
+
+export const resourceSwitchNames = Object.keys(resourceSwitches) as ResourceSwitch[];
+
+export const zodResourcePreset = z.enum(Object.keys(resourcePresets) as [ResourcePreset, ...ResourcePreset[]], {
+    error: `Unknown preset, Use one of ${Object.keys(resourcePresets)
+        .map((preset) => `'${preset}'`)
+        .join(", ")}`,
+});
+
+type ResourceOptions = Partial<Record<ResourceSwitch, boolean>> & { preset?: ResourcePreset };
+
+type EnabledSwitch = {
+    name: ResourceSwitch;
+    origin: ConfigOrigin;
+};
+
+// Switches set explicitly come before the ones the preset turns on, and `false` turns a preset's switch off.
+function getEnabledSwitches(options: ResourceOptions) {
+    const presetSwitches: readonly ResourceSwitch[] = options.preset ? resourcePresets[options.preset] : [];
+
+    const explicit = resourceSwitchNames
+        .filter((name) => options[name] === true)
+        .map((name): EnabledSwitch => ({ name, origin: { source: "user", detail: name } }));
+    const fromPreset = resourceSwitchNames
+        .filter((name) => options[name] === undefined && presetSwitches.includes(name))
+        .map(
+            (name): EnabledSwitch => ({
+                name,
+                origin: { source: "preset", detail: `${options.preset} preset, ${name}` },
+            }),
+        );
+
+    return [...explicit, ...fromPreset];
+}
+
+// Report every pair of switches that want different values for the same pref, the first switch of a pair wins.
+function reportConflicts(enabledSwitches: EnabledSwitch[]) {
+    for (const [index, first] of enabledSwitches.entries()) {
+        const firstPrefs: Record<string, string | number | boolean> = resourceSwitches[first.name];
+
+        for (const second of enabledSwitches.slice(index + 1)) {
+            const conflicts = Object.entries(resourceSwitches[second.name])
+                .filter(([pref, value]) => pref in firstPrefs && firstPrefs[pref] !== value)
+                .map(([pref]) => `'${pref}'`);
+
+            if (conflicts.length > 0) {
+                process.emitWarning(
+                    `'${first.name}' and '${second.name}' set ${conflicts.join(", ")} differently, using '${first.name}'`,
+                    { code: "CAMOUFOX_PRESET_CONFLICT" },
+                );
+            }
+        }
+    }
+}
+
+/**
+ * Add the Firefox prefs of the preset and every resource switch that is turned on.
+ */
+export function addResourceSwitchesToConfig(
+    firefoxPrefs: Record<string, string | number | boolean>,
+    options: ResourceOptions,
+) {
+    const enabledSwitches = getEnabledSwitches(options);
+    reportConflicts(enabledSwitches);
+
+    for (const { name, origin } of enabledSwitches) {
+        addAllToConfig(firefoxPrefs, resourceSwitches[name], origin);
+    }
+}
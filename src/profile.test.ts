@@ -0,0 +1,56 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { loadProfile, type Profile, profileVersion, saveProfile } from "./profile";
+
+const profile: Profile = {
+    version: profileVersion,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    inputs: { os: "linux", seed: "account-42" },
+    os: "linux",
+    config: { "navigator.platform": "Linux x86_64", timezone: "Europe/London" },
+    firefoxUserPrefs: { "webgl.disabled": true },
+};
+
+describe("profiles", () => {
+    let directory: string;
+
+    beforeAll(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-profile-"));
+    });
+
+    afterAll(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("saves and loads a profile, creating the parent directories", async () => {
+        const filePath = path.join(directory, "nested", "account-42.json");
+        await saveProfile(profile, filePath);
+
+        expect(await loadProfile(filePath)).toEqual(profile);
+        expect(await fs.readdir(path.dirname(filePath))).toEqual(["account-42.json"]);
+    });
+
+    it("refuses to save an invalid profile", async () => {
+        const invalid = { ...profile, os: "amiga" } as unknown as Profile;
+        await expect(saveProfile(invalid, path.join(directory, "invalid.json"))).rejects.toThrow(
+            /Refusing to save an invalid profile/,
+        );
+    });
+
+    it("refuses profiles of newer and no longer supported versions", async () => {
+        await expect(loadProfile({ ...profile, version: profileVersion + 1 })).rejects.toThrow(
+            /created by a newer release/,
+        );
+        await expect(loadProfile({ ...profile, version: 0 })).rejects.toThrow(/no longer supported/);
+    });
+
+    it("refuses files that aren't profiles", async () => {
+        const filePath = path.join(directory, "not-a-profile.json");
+        await fs.writeFile(filePath, "[]");
+
+        await expect(loadProfile(filePath)).rejects.toThrow(/is not a profile/);
+        await expect(loadProfile(path.join(directory, "missing.json"))).rejects.toThrow(/Failed to read/);
+    });
+});
@@ -0,0 +1,113 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import { z } from "zod/v4/mini";
+import { ProfileError } from "./errors";
+import { zodTargetOS } from "./fingerprint";
+
+// Version of the profile format written by `saveProfile`, bump it whenever the format changes.
+export const profileVersion = 1;
+
+export const zodProfile = z.strictObject({
+    version: z.literal(profileVersion),
+    createdAt: z.iso.datetime(),
+    /**
+     * The options the profile was created with, for reference only.
+     * Buffers, functions, proxy passwords and environment variables are left out.
+     */
+    inputs: z.record(z.string(), z.json()),
+    os: zodTargetOS,
+    config: z.record(z.string(), z.json()),
+    firefoxUserPrefs: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])),
+});
+export type Profile = z.infer<typeof zodProfile>;
+
+// Any profile object, of any version, before it is migrated and validated.
+export const zodProfileSource = z.union([z.string(), z.looseObject({ version: z.int() })]);
+
+type UnknownProfile = Record<string, unknown> & { version: number };
+
+/**
+ * Upgrades a profile from the version it's keyed by to the next version.
+ * Profiles are run through every migration from their own version up to `profileVersion`,
+ * a version without a migration can't be loaded anymore.
+ */
+const profileMigrations: Record<number, (profile: UnknownProfile) => UnknownProfile> = {};
+
+function migrateProfile(profile: UnknownProfile, source: string) {
+    if (profile.version > profileVersion) {
+        throw new ProfileError(
+            `Profile error, '${source}' has version ${profile.version} and was created by a newer release, This release supports up to version ${profileVersion}`,
+            { context: { source, version: profile.version } },
+        );
+    }
+
+    let migrated = profile;
+    while (migrated.version < profileVersion) {
+        const migration = profileMigrations[migrated.version];
+        if (!migration) {
+            throw new ProfileError(
+                `Profile error, '${source}' has version ${migrated.version} which is no longer supported, Create a new profile`,
+                { context: { source, version: migrated.version } },
+            );
+        }
+        migrated = migration(migrated);
+    }
+
+    const validated = zodProfile.safeParse(migrated);
+    if (!validated.success) {
+        throw new ProfileError(`Profile error, '${source}' is invalid\n${z.prettifyError(validated.error)}`, {
+            context: { source, issues: validated.error.issues },
+        });
+    }
+    return validated.data;
+}
+
+/**
+ * Load a profile from a JSON file, or validate a profile object.
+ * Profiles from older versions are migrated, unsupported versions are refused.
+ */
+export async function loadProfile(source: z.infer<typeof zodProfileSource>) {
+    if (typeof source !== "string") {
+        return migrateProfile(source, "profile");
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await fs.readFile(source, "utf8"));
+    } catch (error) {
+        throw new ProfileError(`Profile error, Failed to read '${source}'`, { context: { source }, cause: error });
+    }
+
+    const profile = zodProfileSource.safeParse(parsed);
+    if (!profile.success || typeof profile.data === "string") {
+        throw new ProfileError(`Profile error, '${source}' is not a profile`, { context: { source } });
+    }
+    return migrateProfile(profile.data, source);
+}
+
+/**
+ * Save a profile as a JSON file, creating the parent directories if needed.
+ * The file is replaced atomically, so a crash never leaves a half written profile behind.
+ */
+export async function saveProfile(profile: Profile, filePath: string) {
+    const validated = zodProfile.safeParse(profile);
+    if (!validated.success) {
+        throw new ProfileError(
+            `Profile error, Refusing to save an invalid profile\n${z.prettifyError(validated.error)}`,
+            {
+                context: { issues: validated.error.issues },
+            },
+        );
+    }
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const temporaryPath = `${filePath}.${process.pid}.tmp`;
+    try {
+        await fs.writeFile(temporaryPath, `${JSON.stringify(validated.data, null, 4)}\n`);
+        await fs.rename(temporaryPath, filePath);
+    } catch (error) {
+        await fs.rm(temporaryPath, { force: true });
+        throw new ProfileError(`Profile error, Failed to write '${filePath}'`, { context: { filePath }, cause: error });
+    }
+}
@@ -0,0 +1,68 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { acquireVirtualDisplay } from "./virtualDisplay";
+
+describe.runIf(process.platform === "linux")("acquireVirtualDisplay", () => {
+    let directory: string;
+    let startLog: string;
+
+    beforeAll(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "camoufox-xvfb-"));
+        startLog = path.join(directory, "starts.log");
+
+        // Stands in for Xvfb, logs its arguments and reports its process id as the display number.
+        await fs.mkdir(path.join(directory, "bin"));
+        await fs.writeFile(
+            path.join(directory, "bin", "Xvfb"),
+            `#!/bin/sh\necho "$*" >> '${startLog}'\necho $$ >&3\nexec sleep 60\n`,
+            { mode: 0o755 },
+        );
+    });
+
+    afterEach(async () => {
+        vi.unstubAllEnvs();
+        await fs.rm(startLog, { force: true });
+    });
+
+    afterAll(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    async function readStarts() {
+        const log = await fs.readFile(startLog, "utf8").catch(() => "");
+        return log.split("\n").filter(Boolean);
+    }
+
+    it("fails clearly when Xvfb isn't installed", async () => {
+        vi.stubEnv("PATH", path.join(directory, "empty"));
+        await expect(acquireVirtualDisplay({ width: 1920, height: 1080 })).rejects.toThrow(/Xvfb is not installed/);
+    });
+
+    it("shares a display between launches with the same screen size", async () => {
+        vi.stubEnv("PATH", `${path.join(directory, "bin")}${path.delimiter}${process.env.PATH}`);
+
+        const [first, second] = await Promise.all([
+            acquireVirtualDisplay({ width: 1920, height: 1080 }),
+            acquireVirtualDisplay({ width: 1920, height: 1080 }),
+        ]);
+        const other = await acquireVirtualDisplay({ width: 1366, height: 768 });
+
+        expect(first.name).toMatch(/^:\d+$/);
+        expect(second.name).toBe(first.name);
+        expect(other.name).not.toBe(first.name);
+        expect(await readStarts()).toEqual([
+            expect.stringContaining("-screen 0 1920x1080x24"),
+            expect.stringContaining("-screen 0 1366x768x24"),
+        ]);
+
+        await Promise.all([first.release(), second.release(), other.release()]);
+
+        // Every user released the display, so the next launch starts a new one.
+        const next = await acquireVirtualDisplay({ width: 1920, height: 1080 });
+        expect(next.name).not.toBe(first.name);
+        await next.release();
+    });
+});
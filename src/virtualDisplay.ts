@@ -0,0 +1,173 @@
+import { type ChildProcess, spawn } from "node:child_process";
+import fs from "node:fs/promises";
+import type { Socket } from "node:net";
+import path from "node:path";
+import process from "node:process";
+import { VirtualDisplayError } from "./errors";
+import { osName } from "./launchPath";
+
+// Xvfb writes the display number it picked to this file descriptor once it accepts connections.
+const displayFileDescriptor = 3;
+const colorDepth = 24;
+const startTimeout = 10_000;
+
+export type ScreenSize = {
+    width: number;
+    height: number;
+};
+
+type VirtualDisplay = {
+    name: string;
+    process: ChildProcess;
+};
+
+type SharedDisplay = {
+    display: Promise<VirtualDisplay>;
+    users: number;
+};
+
+// Launches with the same screen size share one display, a display of another size would not match the fingerprint.
+const sharedDisplays = new Map<string, SharedDisplay>();
+
+// Xvfb outlives the Node.js process unless it's stopped on exit, which only allows synchronous work.
+const runningDisplays = new Set<ChildProcess>();
+function stopRunningDisplays() {
+    for (const xvfb of runningDisplays) {
+        xvfb.kill();
+    }
+}
+
+async function findXvfb() {
+    for (const directory of (process.env.PATH ?? "").split(path.delimiter).filter(Boolean)) {
+        const xvfbPath = path.join(directory, "Xvfb");
+        try {
+            await fs.access(xvfbPath, fs.constants.X_OK);
+            return xvfbPath;
+        } catch {
+            // Not in this directory, keep looking.
+        }
+    }
+    throw new VirtualDisplayError(
+        "Virtual display error, Xvfb is not installed, Install it with your package manager, for example 'apt install xvfb'",
+    );
+}
+
+async function startVirtualDisplay({ width, height }: ScreenSize) {
+    const xvfbPath = await findXvfb();
+    const xvfb = spawn(
+        xvfbPath,
+        [
+            "-displayfd",
+            String(displayFileDescriptor),
+            "-screen",
+            "0",
+            `${width}x${height}x${colorDepth}`,
+            "-nolisten",
+            "tcp",
+        ],
+        { stdio: ["ignore", "ignore", "pipe", "pipe"] },
+    );
+    const displayOutput = xvfb.stdio[displayFileDescriptor] as Socket;
+
+    return new Promise<VirtualDisplay>((resolve, reject) => {
+        let output = "";
+        let errorOutput = "";
+        // A slow start can be down to a busy machine, so only a timeout is worth retrying.
+        const fail = (reason: string, retryable = false) => {
+            clearTimeout(timeout);
+            xvfb.kill();
+            reject(
+                new VirtualDisplayError(
+                    `Virtual display error, Xvfb ${reason}${errorOutput ? `\n${errorOutput.trim()}` : ""}`,
+                    { context: { xvfbPath, errorOutput }, retryable },
+                ),
+            );
+        };
+        const timeout = setTimeout(() => fail("did not start in time", true), startTimeout);
+
+        xvfb.stderr?.on("data", (data: Buffer) => {
+            errorOutput += data.toString("utf8");
+        });
+        xvfb.once("error", (error) => fail(`failed to start, ${error.message}`));
+        xvfb.once("exit", (code) => fail(`exited with code ${code}`));
+
+        displayOutput.on("data", (data: Buffer) => {
+            output += data.toString("utf8");
+            const displayNumber = /^(\d+)\n/.exec(output)?.[1];
+            if (displayNumber === undefined) {
+                return;
+            }
+
+            clearTimeout(timeout);
+            xvfb.removeAllListeners("exit");
+            runningDisplays.add(xvfb);
+            xvfb.once("exit", () => runningDisplays.delete(xvfb));
+            if (!process.listeners("exit").includes(stopRunningDisplays)) {
+                process.once("exit", stopRunningDisplays);
+            }
+
+            // A running display must not keep the Node.js process alive on its own.
+            xvfb.unref();
+            displayOutput.unref();
+            (xvfb.stderr as Socket | null)?.unref();
+            resolve({ name: `:${displayNumber}`, process: xvfb });
+        });
+    });
+}
+
+function forgetDisplay(key: string, shared: SharedDisplay) {
+    if (sharedDisplays.get(key) !== shared) {
+        return false;
+    }
+    sharedDisplays.delete(key);
+    return true;
+}
+
+/**
+ * Use a virtual display with the given screen size, starting Xvfb if no display of that size is running.
+ * The display is stopped once every user released it.
+ */
+export async function acquireVirtualDisplay(screenSize: ScreenSize) {
+    if (osName !== "linux") {
+        throw new VirtualDisplayError("Virtual display error, 'headless: \"virtual\"' is only supported on Linux");
+    }
+
+    const key = `${screenSize.width}x${screenSize.height}`;
+    const shared = sharedDisplays.get(key) ?? { display: startVirtualDisplay(screenSize), users: 0 };
+    if (!sharedDisplays.has(key)) {
+        sharedDisplays.set(key, shared);
+        // Displays that failed to start, or stopped on their own, are never handed out again.
+        shared.display.then(
+            (virtualDisplay) => virtualDisplay.process.once("exit", () => forgetDisplay(key, shared)),
+            () => forgetDisplay(key, shared),
+        );
+    }
+    shared.users += 1;
+
+    let display: VirtualDisplay;
+    try {
+        display = await shared.display;
+    } catch (error) {
+        shared.users -= 1;
+        throw error;
+    }
+
+    let released = false;
+    const release = async () => {
+        if (released) {
+            return;
+        }
+        released = true;
+        shared.users -= 1;
+
+        if (shared.users === 0 && forgetDisplay(key, shared) && display.process.exitCode === null) {
+            const exited = new Promise((resolve) => display.process.once("exit", resolve));
+            // Hold the Node.js process open until Xvfb has stopped.
+            display.process.ref();
+            display.process.kill();
+            await exited;
+        }
+    };
+
+    return { name: display.name, release };
+}
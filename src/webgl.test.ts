@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { getWebGLConfig, restrictTargetOS } from "./webgl";
+
+const appleM1 = { vendor: "Apple", renderer: "Apple M1, or similar" };
+const nvidiaAngle = {
+    vendor: "Google Inc. (NVIDIA)",
+    renderer: "ANGLE (NVIDIA, NVIDIA GeForce GTX 980 Direct3D11 vs_5_0 ps_5_0), or similar",
+};
+
+describe("getWebGLConfig", () => {
+    it("uses the given vendor/renderer pair for WebGL and WebGL2", () => {
+        const config = getWebGLConfig("macos", appleM1);
+
+        expect(config).toMatchObject({
+            "webGl:vendor": "Apple",
+            "webGl:renderer": "Apple M1, or similar",
+            "webGl2:vendor": "Apple",
+            "webGl2:renderer": "Apple M1, or similar",
+        });
+        expect(config["webGl:supportedExtensions"]).toContain("WEBGL_debug_renderer_info");
+    });
+
+    it("samples a pair of the target OS", () => {
+        for (let run = 0; run < 20; run++) {
+            expect(getWebGLConfig("windows")["webGl:vendor"]).toMatch(/^Google Inc\. \(/);
+        }
+    });
+
+    it("rejects a pair that doesn't exist on the target OS", () => {
+        expect(() => getWebGLConfig("linux", appleM1)).toThrow(/not a valid vendor\/renderer pair on linux/);
+    });
+});
+
+describe("restrictTargetOS", () => {
+    it("limits the operating systems to the ones the pair exists on", () => {
+        expect(restrictTargetOS(undefined, appleM1)).toEqual(["macos"]);
+        expect(restrictTargetOS(undefined, nvidiaAngle)).toEqual(["windows"]);
+    });
+
+    it("keeps the given operating systems the pair exists on", () => {
+        expect(restrictTargetOS(["macos", "linux"], appleM1)).toEqual(["macos"]);
+        expect(restrictTargetOS("windows", nvidiaAngle)).toEqual(["windows"]);
+        expect(() => restrictTargetOS(["linux", "windows"], appleM1)).toThrow(
+            /not a valid vendor\/renderer pair on linux, windows/,
+        );
+    });
+
+    it("leaves the OS alone without a pair", () => {
+        expect(restrictTargetOS(undefined, undefined)).toBeUndefined();
+        expect(restrictTargetOS("linux", undefined)).toBe("linux");
+    });
+
+    it("rejects a pair that exists on no OS", () => {
+        expect(() => restrictTargetOS(undefined, { vendor: "Acme", renderer: "Nothing" })).toThrow(/on any OS/);
+    });
+});
@@ -0,0 +1,86 @@
+import { z } from "zod/v4/mini";
+import { FingerprintError } from "./errors";
+import { type TargetOS, targetOperatingSystems } from "./fingerprintData";
+import { type ConfigValue, pickWeighted, type RandomSource } from "./helper";
+import { webglData, webglProfiles } from "./webglData";
+
+export const zodWebGLConfig = z.strictObject({
+    /**
+     * Unmasked WebGL vendor, as reported by `WEBGL_debug_renderer_info`.
+     * For example: `"Google Inc. (NVIDIA)"`
+     */
+    vendor: z.string(),
+    /**
+     * Unmasked WebGL renderer, as reported by `WEBGL_debug_renderer_info`.
+     * For example: `"ANGLE (NVIDIA, NVIDIA GeForce GTX 980 Direct3D11 vs_5_0 ps_5_0), or similar"`
+     */
+    renderer: z.string(),
+});
+type WebGLConfig = z.infer<typeof zodWebGLConfig>;
+
+function findRenderer(targetOS: TargetOS, webglConfig: WebGLConfig) {
+    const match = webglData[targetOS].find(
+        ([entry]) => entry.vendor === webglConfig.vendor && entry.renderer === webglConfig.renderer,
+    );
+    return match?.[0];
+}
+
+// Copy the readonly bundled parameters into a mutable config value.
+function copyParameters(parameters: Readonly<Record<string, number | readonly number[]>>) {
+    const copy: Record<string, ConfigValue> = {};
+    for (const [glEnum, value] of Object.entries(parameters)) {
+        copy[glEnum] = typeof value === "number" ? value : [...value];
+    }
+    return copy;
+}
+
+/**
+ * Only pick from the operating systems the given vendor/renderer pair exists on, out of the given `os` if there is one.
+ */
+export function restrictTargetOS(os: TargetOS | TargetOS[] | undefined, webglConfig: WebGLConfig | undefined) {
+    if (webglConfig === undefined) {
+        return os;
+    }
+
+    const allowed: readonly TargetOS[] = os === undefined ? targetOperatingSystems : [os].flat();
+    const candidates = allowed.filter((targetOS) => findRenderer(targetOS, webglConfig) !== undefined);
+    if (candidates.length === 0) {
+        throw new FingerprintError(
+            `WebGL error, '${webglConfig.vendor}' / '${webglConfig.renderer}' is not a valid vendor/renderer pair on ${os === undefined ? "any OS" : allowed.join(", ")}`,
+            { context: { os: allowed } },
+        );
+    }
+    return candidates;
+}
+
+/**
+ * Build the `webGl:*` and `webGl2:*` config for the target OS.
+ * Uses the given vendor/renderer pair if it exists on that OS, otherwise samples a realistic one.
+ */
+export function getWebGLConfig(targetOS: TargetOS, webglConfig?: WebGLConfig, random: RandomSource = Math.random) {
+    let renderer = pickWeighted(webglData[targetOS], random);
+
+    if (webglConfig) {
+        const match = findRenderer(targetOS, webglConfig);
+        if (match === undefined) {
+            throw new FingerprintError(
+                `WebGL error, '${webglConfig.vendor}' / '${webglConfig.renderer}' is not a valid vendor/renderer pair on ${targetOS}`,
+            );
+        }
+        renderer = match;
+    }
+
+    const profile = webglProfiles[renderer.profile];
+
+    const config: Record<string, ConfigValue> = {
+        "webGl:vendor": renderer.vendor,
+        "webGl:renderer": renderer.renderer,
+        "webGl:supportedExtensions": [...profile.extensions],
+        "webGl:parameters": copyParameters(profile.parameters),
+        "webGl2:vendor": renderer.vendor,
+        "webGl2:renderer": renderer.renderer,
+        "webGl2:supportedExtensions": [...profile.webgl2Extensions],
+        "webGl2:parameters": copyParameters(profile.parameters),
+    };
+    return config;
+}
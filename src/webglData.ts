@@ -0,0 +1,172 @@
+// Bundled table of the WebGL vendor/renderer pairs Firefox reports on each OS.
+// Firefox sanitizes `WEBGL_debug_renderer_info` down to a handful of generic GPU names, so the list is short.
+// Parameters are keyed by their WebGL enum value, exactly like Camoufox expects them.
+
+import type { TargetOS, Weighted } from "./fingerprintData";
+
+type WebGLProfile = {
+    readonly extensions: readonly string[];
+    readonly webgl2Extensions: readonly string[];
+    readonly parameters: Readonly<Record<string, number | readonly number[]>>;
+};
+
+export type WebGLRenderer = {
+    readonly vendor: string;
+    readonly renderer: string;
+    readonly profile: keyof typeof webglProfiles;
+};
+
+const sharedExtensions = [
+    "ANGLE_instanced_arrays",
+    "EXT_blend_minmax",
+    "EXT_color_buffer_half_float",
+    "EXT_float_blend",
+    "EXT_frag_depth",
+    "EXT_shader_texture_lod",
+    "EXT_sRGB",
+    "EXT_texture_filter_anisotropic",
+    "OES_element_index_uint",
+    "OES_fbo_render_mipmap",
+    "OES_standard_derivatives",
+    "OES_texture_float",
+    "OES_texture_float_linear",
+    "OES_texture_half_float",
+    "OES_texture_half_float_linear",
+    "OES_vertex_array_object",
+    "WEBGL_color_buffer_float",
+    "WEBGL_debug_renderer_info",
+    "WEBGL_debug_shaders",
+    "WEBGL_depth_texture",
+    "WEBGL_draw_buffers",
+    "WEBGL_lose_context",
+] as const;
+
+const sharedWebgl2Extensions = [
+    "EXT_color_buffer_float",
+    "EXT_float_blend",
+    "EXT_texture_filter_anisotropic",
+    "OES_draw_buffers_indexed",
+    "OES_texture_float_linear",
+    "OVR_multiview2",
+    "WEBGL_debug_renderer_info",
+    "WEBGL_debug_shaders",
+    "WEBGL_lose_context",
+    "WEBGL_provoking_vertex",
+] as const;
+
+const desktopCompression = [
+    "EXT_texture_compression_bptc",
+    "EXT_texture_compression_rgtc",
+    "WEBGL_compressed_texture_s3tc",
+    "WEBGL_compressed_texture_s3tc_srgb",
+] as const;
+
+const appleCompression = [
+    "WEBGL_compressed_texture_astc",
+    "WEBGL_compressed_texture_etc",
+    "WEBGL_compressed_texture_etc1",
+    "WEBGL_compressed_texture_s3tc",
+    "WEBGL_compressed_texture_s3tc_srgb",
+] as const;
+
+export const webglProfiles = {
+    // Direct3D 11 through ANGLE on Windows.
+    angle: {
+        extensions: [...sharedExtensions, ...desktopCompression].sort(),
+        webgl2Extensions: [...sharedWebgl2Extensions, ...desktopCompression].sort(),
+        parameters: {
+            "3379": 16384,
+            "3386": [32767, 32767],
+            "33901": [1, 1024],
+            "33902": [1, 1],
+            "34024": 16384,
+            "34076": 16384,
+            "34921": 16,
+            "34930": 16,
+            "35660": 16,
+            "35661": 32,
+            "36347": 4096,
+            "36348": 30,
+            "36349": 1024,
+        },
+    },
+    // Metal on Apple Silicon and recent Intel Macs.
+    apple: {
+        extensions: [...sharedExtensions, ...appleCompression].sort(),
+        webgl2Extensions: [...sharedWebgl2Extensions, ...appleCompression].sort(),
+        parameters: {
+            "3379": 16384,
+            "3386": [16384, 16384],
+            "33901": [1, 511],
+            "33902": [1, 1],
+            "34024": 16384,
+            "34076": 16384,
+            "34921": 16,
+            "34930": 16,
+            "35660": 16,
+            "35661": 32,
+            "36347": 1024,
+            "36348": 31,
+            "36349": 1024,
+        },
+    },
+    // Native OpenGL drivers on Linux.
+    mesa: {
+        extensions: [...sharedExtensions, ...desktopCompression].sort(),
+        webgl2Extensions: [...sharedWebgl2Extensions, ...desktopCompression].sort(),
+        parameters: {
+            "3379": 16384,
+            "3386": [16384, 16384],
+            "33901": [1, 2047],
+            "33902": [1, 7],
+            "34024": 16384,
+            "34076": 16384,
+            "34921": 16,
+            "34930": 32,
+            "35660": 32,
+            "35661": 64,
+            "36347": 4096,
+            "36348": 32,
+            "36349": 4096,
+        },
+    },
+} as const satisfies Record<string, WebGLProfile>;
+
+export const webglData: Record<TargetOS, Weighted<WebGLRenderer>> = {
+    windows: [
+        [
+            {
+                vendor: "Google Inc. (Intel)",
+                renderer: "ANGLE (Intel, Intel(R) HD Graphics 400 Direct3D11 vs_5_0 ps_5_0), or similar",
+                profile: "angle",
+            },
+            0.45,
+        ],
+        [
+            {
+                vendor: "Google Inc. (NVIDIA)",
+                renderer: "ANGLE (NVIDIA, NVIDIA GeForce GTX 980 Direct3D11 vs_5_0 ps_5_0), or similar",
+                profile: "angle",
+            },
+            0.35,
+        ],
+        [
+            {
+                vendor: "Google Inc. (AMD)",
+                renderer: "ANGLE (AMD, Radeon R9 200 Series Direct3D11 vs_5_0 ps_5_0), or similar",
+                profile: "angle",
+            },
+            0.2,
+        ],
+    ],
+    macos: [
+        [{ vendor: "Apple", renderer: "Apple M1, or similar", profile: "apple" }, 0.75],
+        [{ vendor: "Intel Inc.", renderer: "Intel(R) HD Graphics 400, or similar", profile: "apple" }, 0.2],
+        [{ vendor: "ATI Technologies Inc.", renderer: "Radeon R9 200 Series, or similar", profile: "apple" }, 0.05],
+    ],
+    linux: [
+        [{ vendor: "Intel", renderer: "Intel(R) HD Graphics, or similar", profile: "mesa" }, 0.5],
+        [{ vendor: "AMD", renderer: "Radeon R9 200 Series, or similar", profile: "mesa" }, 0.2],
+        [{ vendor: "NVIDIA Corporation", renderer: "NVIDIA GeForce GTX 980, or similar", profile: "mesa" }, 0.3],
+    ],
+};